@@ -1,6 +1,7 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { MediaProvider } from './contexts/MediaContext'
 import LandingPage from './pages/landing'
+import LobbyPage from './pages/lobby'
 import MeetingPage from './pages/meeting'
 import './App.scss'
 
@@ -11,6 +12,7 @@ function App() {
         <div className="app">
           <Routes>
             <Route path="/" element={<LandingPage />} />
+            <Route path="/meeting/:roomId/lobby" element={<LobbyPage />} />
             <Route path="/meeting/:roomId" element={<MeetingPage />} />
           </Routes>
         </div>
@@ -0,0 +1,44 @@
+import Button from "../button";
+import type { WaitingParticipant } from "../../hooks/useSockets";
+
+import "./AdmissionRequests.scss";
+
+interface AdmissionRequestsProps {
+  waitingList: WaitingParticipant[];
+  onAdmit: (id: string) => void;
+  onDeny: (id: string) => void;
+}
+
+const AdmissionRequests = ({
+  waitingList,
+  onAdmit,
+  onDeny,
+}: AdmissionRequestsProps) => {
+  if (!waitingList.length) return null;
+
+  return (
+    <div className="admission-requests">
+      {waitingList.map((participant) => (
+        <div key={participant.id} className="admission-requests__item">
+          <span className="admission-requests__name">
+            {participant.name} wants to join
+          </span>
+          <div className="admission-requests__actions">
+            <Button
+              className="admission-requests__admit-button"
+              onClick={() => onAdmit(participant.id)}
+              label="Admit"
+            />
+            <Button
+              className="admission-requests__deny-button"
+              onClick={() => onDeny(participant.id)}
+              label="Deny"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default AdmissionRequests;
@@ -0,0 +1,3 @@
+import AdmissionRequests from './AdmissionRequests';
+
+export default AdmissionRequests;
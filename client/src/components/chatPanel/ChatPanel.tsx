@@ -0,0 +1,154 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import cn from "classnames";
+import { BsSendFill } from "react-icons/bs";
+
+import { MAX_CHAT_MESSAGE_LENGTH } from "../../../../shared/protocol.mjs";
+import IconButton from "../iconButton";
+import Select from "../select";
+import SidePanel from "../sidePanel";
+import type { ChatMessage } from "../../hooks/useSockets";
+
+import "./ChatPanel.scss";
+
+export interface ChatParticipant {
+  id: string;
+  name: string;
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // Everyone else in the meeting - possible recipients of a direct message
+  participants: ChatParticipant[];
+  selfId: string | null;
+  onSend: (text: string, to: string | null) => void;
+  onClose: () => void;
+}
+
+// http(s) links and bare www. addresses
+const LINK_PATTERN = /(https?:\/\/[^\s]+|www\.[^\s]+)/g;
+// Punctuation that ends the sentence rather than the link
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+const renderText = (text: string) => text.split(LINK_PATTERN).map((part, index) => {
+  // split() puts the captured links at the odd indices
+  if (index % 2 === 0) return part;
+  const trailing = part.match(TRAILING_PUNCTUATION)?.[0] || '';
+  const link = part.slice(0, part.length - trailing.length);
+  return (
+    <Fragment key={index}>
+      <a
+        className="chat-panel__link"
+        href={link.startsWith('www.') ? `https://${link}` : link}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        {link}
+      </a>
+      {trailing}
+    </Fragment>
+  );
+});
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const ChatPanel = ({
+  messages,
+  participants,
+  selfId,
+  onSend,
+  onClose,
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState('');
+  const [recipientId, setRecipientId] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The chosen recipient left - fall back to everyone
+  const to = participants.some(({ id }) => id === recipientId) ? recipientId : '';
+
+  const getName = (id: string | null, fallback: string) =>
+    id === selfId ? 'You' : participants.find((participant) => participant.id === id)?.name || fallback;
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages.length]);
+
+  const handleSend = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text, to || null);
+    setDraft('');
+  };
+
+  // Enter sends, Shift+Enter starts a new line (for snippets)
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <SidePanel title="Chat" onClose={onClose} className="chat-panel">
+      <div ref={listRef} className="chat-panel__messages">
+        {messages.length === 0 && (
+          <p className="chat-panel__empty">No messages yet</p>
+        )}
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn("chat-panel__message", {
+              "chat-panel__message--own": message.from === selfId,
+              "chat-panel__message--private": Boolean(message.to),
+            })}
+          >
+            <div className="chat-panel__meta">
+              <span className="chat-panel__sender">
+                {message.from === selfId ? 'You' : message.fromName}
+                {message.to && ` to ${getName(message.to, 'someone who left')} (private)`}
+              </span>
+              <span className="chat-panel__time">{formatTime(message.sentAt)}</span>
+            </div>
+            <div className="chat-panel__text">{renderText(message.text)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="chat-panel__composer">
+        <Select
+          id="chat-recipient"
+          className="chat-panel__recipient"
+          value={to}
+          options={[
+            { value: '', label: 'To everyone' },
+            ...participants.map(({ id, name }) => ({ value: id, label: `To ${name} (private)` })),
+          ]}
+          onChange={(e) => setRecipientId(e.target.value)}
+        />
+        <div className="chat-panel__input-row">
+          <textarea
+            className="chat-panel__input"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Send a message"
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            rows={2}
+          />
+          <IconButton
+            className="chat-panel__send-button"
+            onClick={handleSend}
+            disabled={!draft.trim()}
+            icon={<BsSendFill />}
+          />
+        </div>
+      </div>
+    </SidePanel>
+  )
+}
+
+export default ChatPanel;
@@ -0,0 +1,3 @@
+import ChatPanel from './ChatPanel';
+
+export default ChatPanel;
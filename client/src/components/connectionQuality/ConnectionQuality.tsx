@@ -0,0 +1,82 @@
+import { useState } from "react";
+import cn from "classnames";
+
+import type { CandidateType, ConnectionStats } from "../../utils/connectionStats";
+
+import "./ConnectionQuality.scss";
+
+interface ConnectionQualityProps {
+  stats?: ConnectionStats;
+}
+
+const BARS_BY_QUALITY: Record<ConnectionStats['quality'], number> = {
+  good: 3,
+  fair: 2,
+  poor: 1,
+  unknown: 0,
+};
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+  host: 'direct',
+  srflx: 'STUN',
+  prflx: 'STUN',
+  relay: 'TURN relay',
+};
+
+const formatValue = (value: number | undefined, unit: string) =>
+  value === undefined ? '-' : `${value} ${unit}`;
+
+const ConnectionQuality = ({
+  stats,
+}: ConnectionQualityProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!stats) return null;
+
+  const bars = BARS_BY_QUALITY[stats.quality];
+  const route = stats.localCandidateType && stats.remoteCandidateType
+    ? `${CANDIDATE_LABELS[stats.localCandidateType]} / ${CANDIDATE_LABELS[stats.remoteCandidateType]}`
+    : '-';
+  const resolution = stats.frameWidth && stats.frameHeight
+    ? `${stats.frameWidth}x${stats.frameHeight}`
+    : '-';
+
+  return (
+    <div
+      className={cn("connection-quality", `connection-quality--${stats.quality}`, {
+        "connection-quality--expanded": isExpanded,
+      })}
+    >
+      <button
+        className="connection-quality__bars"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-label={`Connection quality: ${stats.quality}`}
+      >
+        {[1, 2, 3].map((level) => (
+          <span
+            key={level}
+            className={cn("connection-quality__bar", { "connection-quality__bar--active": level <= bars })}
+          />
+        ))}
+      </button>
+      <dl className="connection-quality__details">
+        <dt>Download</dt>
+        <dd>{formatValue(stats.inboundBitrate, 'kbps')}</dd>
+        <dt>Upload</dt>
+        <dd>{formatValue(stats.outboundBitrate, 'kbps')}</dd>
+        <dt>Packet loss</dt>
+        <dd>{formatValue(stats.packetLoss, '%')}</dd>
+        <dt>Jitter</dt>
+        <dd>{formatValue(stats.jitter, 'ms')}</dd>
+        <dt>Round trip</dt>
+        <dd>{formatValue(stats.roundTripTime, 'ms')}</dd>
+        <dt>Video</dt>
+        <dd>{resolution}{stats.frameRate !== undefined && ` @ ${stats.frameRate} fps`}</dd>
+        <dt>Route</dt>
+        <dd>{route}</dd>
+      </dl>
+    </div>
+  )
+}
+
+export default ConnectionQuality;
@@ -0,0 +1,3 @@
+import ConnectionQuality from './ConnectionQuality';
+
+export default ConnectionQuality;
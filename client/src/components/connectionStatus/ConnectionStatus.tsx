@@ -0,0 +1,51 @@
+import Button from "../button";
+import type { ConnectionStatus as Status } from "../../hooks/useSockets";
+
+import "./ConnectionStatus.scss";
+
+interface ConnectionStatusProps {
+  status: Status;
+  onRejoin: () => void;
+  onLeave: () => void;
+}
+
+const ConnectionStatus = ({
+  status,
+  onRejoin,
+  onLeave,
+}: ConnectionStatusProps) => {
+  if (status === 'reconnecting') {
+    return (
+      <div className="connection-status__banner">
+        Connection interrupted. Reconnecting...
+      </div>
+    );
+  }
+
+  if (status === 'lost') {
+    return (
+      <div className="connection-status__overlay">
+        <div className="connection-status__dialog">
+          <h2>Connection lost</h2>
+          <p>We couldn't reach the meeting server. Check your network and rejoin.</p>
+          <div className="connection-status__actions">
+            <Button
+              className="connection-status__rejoin-button"
+              onClick={onRejoin}
+              label="Rejoin"
+            />
+            <Button
+              className="connection-status__leave-button"
+              onClick={onLeave}
+              label="Leave"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+export default ConnectionStatus;
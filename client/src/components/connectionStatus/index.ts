@@ -0,0 +1,3 @@
+import ConnectionStatus from './ConnectionStatus';
+
+export default ConnectionStatus;
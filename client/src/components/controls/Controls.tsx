@@ -3,44 +3,100 @@ import cn from 'classnames';
 import {
   BsCameraVideoFill,
   BsCameraVideoOffFill,
+  BsChatDots,
+  BsChatDotsFill,
+  BsDisplay,
+  BsDisplayFill,
+  BsGearFill,
+  BsHandIndexThumb,
+  BsHandIndexThumbFill,
   BsMicFill,
   BsMicMuteFill,
+  BsPeople,
+  BsPeopleFill,
+  BsRecordCircle,
+  BsRecordCircleFill,
   BsTelephoneXFill
 } from "react-icons/bs";
 
+import { PUSH_TO_TALK_KEY } from "../../hooks/usePushToTalk";
 import IconButton from "../iconButton";
+import ReactionPicker from "../reactionPicker";
 
 import "./Controls.scss";
 
 interface ControlsProps {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
+  isScreenSharing: boolean;
+  isSettingsOpen: boolean;
+  isRecording: boolean;
+  isChatOpen: boolean;
+  isParticipantsOpen: boolean;
+  unreadChatCount: number;
+  isHandRaised: boolean;
+  // The mic is only open while the push-to-talk key is held
+  isPushToTalk?: boolean;
   localStream: MediaStream | null;
   toggleAudio: () => void;
   toggleVideo: () => void;
+  toggleScreenShare: () => void;
+  toggleSettings: () => void;
+  toggleRecording: () => void;
+  toggleChat: () => void;
+  toggleParticipants: () => void;
+  toggleHand: () => void;
+  sendReaction: (emoji: string) => void;
   handleLeave: () => void;
 }
 
 const Controls = ({
   isAudioEnabled,
   isVideoEnabled,
+  isScreenSharing,
+  isSettingsOpen,
+  isRecording,
+  isChatOpen,
+  isParticipantsOpen,
+  unreadChatCount,
+  isHandRaised,
+  isPushToTalk = false,
   localStream,
   toggleAudio,
   toggleVideo,
+  toggleScreenShare,
+  toggleSettings,
+  toggleRecording,
+  toggleChat,
+  toggleParticipants,
+  toggleHand,
+  sendReaction,
   handleLeave,
 }: ControlsProps) => {
+  // getDisplayMedia is missing on most mobile browsers
+  const canShareScreen = Boolean(navigator.mediaDevices?.getDisplayMedia);
+  const canRecord = typeof MediaRecorder !== 'undefined';
+
   return (
     <div className="controls">
       <div className="controls__left">
-        <IconButton
-          className={cn("controls__mic-button", {
-            "controls__mic-button--off": !isAudioEnabled,
-            "controls__mic-button--disabled": !localStream,
-          })}
-          disabled={!localStream}
-          icon={isAudioEnabled ? <BsMicFill /> : <BsMicMuteFill />}
-          onClick={toggleAudio}
-        />
+        <div className="controls__mic">
+          <IconButton
+            className={cn("controls__mic-button", {
+              "controls__mic-button--off": !isAudioEnabled,
+              "controls__mic-button--disabled": !localStream || isPushToTalk,
+            })}
+            // Held by push to talk - the key opens and closes the mic
+            disabled={!localStream || isPushToTalk}
+            icon={isAudioEnabled ? <BsMicFill /> : <BsMicMuteFill />}
+            onClick={toggleAudio}
+          />
+          {isPushToTalk && localStream && (
+            <span className="controls__hint">
+              {isAudioEnabled ? 'Talking' : `Push to talk - hold ${PUSH_TO_TALK_KEY}`}
+            </span>
+          )}
+        </div>
         <IconButton
           className={cn("controls__video-button", {
             "controls__video-button--disabled": !localStream,
@@ -50,6 +106,58 @@ const Controls = ({
           icon={isVideoEnabled ? <BsCameraVideoFill /> : <BsCameraVideoOffFill />}
           onClick={toggleVideo}
         />
+        <IconButton
+          className={cn("controls__screen-share-button", {
+            "controls__screen-share-button--active": isScreenSharing,
+            "controls__screen-share-button--disabled": !canShareScreen,
+          })}
+          disabled={!canShareScreen}
+          icon={isScreenSharing ? <BsDisplayFill /> : <BsDisplay />}
+          onClick={toggleScreenShare}
+        />
+        <IconButton
+          className={cn("controls__record-button", {
+            "controls__record-button--active": isRecording,
+            "controls__record-button--disabled": !canRecord,
+          })}
+          disabled={!canRecord}
+          icon={isRecording ? <BsRecordCircleFill /> : <BsRecordCircle />}
+          onClick={toggleRecording}
+        />
+        <IconButton
+          className={cn("controls__hand-button", {
+            "controls__hand-button--active": isHandRaised,
+          })}
+          icon={isHandRaised ? <BsHandIndexThumbFill /> : <BsHandIndexThumb />}
+          onClick={toggleHand}
+        />
+        <ReactionPicker onReact={sendReaction} />
+        <IconButton
+          className={cn("controls__participants-button", {
+            "controls__participants-button--active": isParticipantsOpen,
+          })}
+          icon={isParticipantsOpen ? <BsPeopleFill /> : <BsPeople />}
+          onClick={toggleParticipants}
+        />
+        <div className="controls__chat">
+          <IconButton
+            className={cn("controls__chat-button", {
+              "controls__chat-button--active": isChatOpen,
+            })}
+            icon={isChatOpen ? <BsChatDotsFill /> : <BsChatDots />}
+            onClick={toggleChat}
+          />
+          {unreadChatCount > 0 && (
+            <span className="controls__badge">{unreadChatCount > 9 ? '9+' : unreadChatCount}</span>
+          )}
+        </div>
+        <IconButton
+          className={cn("controls__settings-button", {
+            "controls__settings-button--active": isSettingsOpen,
+          })}
+          icon={<BsGearFill />}
+          onClick={toggleSettings}
+        />
       </div>
       <div className="controls__right">
         <IconButton
@@ -0,0 +1,80 @@
+import Select from "../select";
+import type { SelectOption } from "../select/Select";
+
+import "./DeviceSettings.scss";
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceInfo[];
+  audioDeviceId: string | null;
+  videoDeviceId: string | null;
+  outputDeviceId: string | null;
+  onAudioDeviceChange: (deviceId: string) => void;
+  onVideoDeviceChange: (deviceId: string) => void;
+  onOutputDeviceChange: (deviceId: string | null) => void;
+}
+
+// Labels stay empty until media permission is granted
+const toOptions = (devices: MediaDeviceInfo[], kind: MediaDeviceKind, fallbackLabel: string): SelectOption[] =>
+  devices
+    .filter((device) => device.kind === kind && device.deviceId)
+    .map((device, index) => ({
+      value: device.deviceId,
+      label: device.label || `${fallbackLabel} ${index + 1}`,
+    }));
+
+// Speaker selection needs HTMLMediaElement.setSinkId (not available in every browser)
+const canSelectOutput = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+const DeviceSettings = ({
+  devices,
+  audioDeviceId,
+  videoDeviceId,
+  outputDeviceId,
+  onAudioDeviceChange,
+  onVideoDeviceChange,
+  onOutputDeviceChange,
+}: DeviceSettingsProps) => {
+  const microphones = toOptions(devices, 'audioinput', 'Microphone');
+  const cameras = toOptions(devices, 'videoinput', 'Camera');
+  const speakers = toOptions(devices, 'audiooutput', 'Speaker');
+
+  return (
+    <div className="device-settings">
+      <label className="device-settings__field" htmlFor="device-settings-microphone">
+        <span className="device-settings__label">Microphone</span>
+        <Select
+          id="device-settings-microphone"
+          value={audioDeviceId || ''}
+          options={microphones.length ? microphones : [{ value: '', label: 'No microphone found' }]}
+          disabled={!microphones.length}
+          onChange={(e) => onAudioDeviceChange(e.target.value)}
+        />
+      </label>
+
+      <label className="device-settings__field" htmlFor="device-settings-camera">
+        <span className="device-settings__label">Camera</span>
+        <Select
+          id="device-settings-camera"
+          value={videoDeviceId || ''}
+          options={cameras.length ? cameras : [{ value: '', label: 'No camera found' }]}
+          disabled={!cameras.length}
+          onChange={(e) => onVideoDeviceChange(e.target.value)}
+        />
+      </label>
+
+      {canSelectOutput && (
+        <label className="device-settings__field" htmlFor="device-settings-speaker">
+          <span className="device-settings__label">Speaker</span>
+          <Select
+            id="device-settings-speaker"
+            value={outputDeviceId || ''}
+            options={[{ value: '', label: 'System default' }, ...speakers]}
+            onChange={(e) => onOutputDeviceChange(e.target.value || null)}
+          />
+        </label>
+      )}
+    </div>
+  )
+}
+
+export default DeviceSettings;
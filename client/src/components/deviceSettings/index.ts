@@ -0,0 +1,3 @@
+import DeviceSettings from './DeviceSettings';
+
+export default DeviceSettings;
@@ -2,10 +2,12 @@ import Button from "./button";
 import Controls from "./controls";
 import IconButton from "./iconButton";
 import Input from "./input";
+import Select from "./select";
 
 export default {
   Button,
   Controls,
   IconButton,
   Input,
+  Select,
 };
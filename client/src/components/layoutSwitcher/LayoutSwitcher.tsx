@@ -0,0 +1,44 @@
+import type { ReactNode } from "react";
+import cn from "classnames";
+import { BsGrid3X3GapFill, BsPersonVideo3, BsPinAngleFill } from "react-icons/bs";
+
+import "./LayoutSwitcher.scss";
+
+export type MeetingLayout = 'gallery' | 'speaker' | 'spotlight';
+
+interface LayoutSwitcherProps {
+  layout: MeetingLayout;
+  onLayoutChange: (layout: MeetingLayout) => void;
+}
+
+const LAYOUTS: { value: MeetingLayout; label: string; icon: ReactNode }[] = [
+  { value: 'gallery', label: 'Gallery', icon: <BsGrid3X3GapFill /> },
+  { value: 'speaker', label: 'Active speaker', icon: <BsPersonVideo3 /> },
+  { value: 'spotlight', label: 'Spotlight', icon: <BsPinAngleFill /> },
+];
+
+const LayoutSwitcher = ({
+  layout,
+  onLayoutChange,
+}: LayoutSwitcherProps) => {
+  return (
+    <div className="layout-switcher" role="radiogroup" aria-label="Layout">
+      {LAYOUTS.map(({ value, label, icon }) => (
+        <button
+          key={value}
+          className={cn("layout-switcher__option", {
+            "layout-switcher__option--active": layout === value,
+          })}
+          role="radio"
+          aria-checked={layout === value}
+          title={label}
+          onClick={() => onLayoutChange(value)}
+        >
+          {icon}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default LayoutSwitcher;
@@ -0,0 +1,3 @@
+import LayoutSwitcher from './LayoutSwitcher';
+
+export default LayoutSwitcher;
@@ -1,18 +1,30 @@
 import type { RefObject } from "react";
 import cn from "classnames";
 
+import ReactionBubble from "../reactionBubble";
+import type { Reaction } from "../../hooks/useSockets";
+
 import "./LocalVideo.scss";
 
 interface LocalVideoProps {
   localVideoRef: RefObject<HTMLVideoElement | null>;
   userName: string;
   isSpeaking: boolean;
+  isScreenSharing?: boolean;
+  isHost?: boolean;
+  // Place in the raised hands queue (1 = next), undefined while the hand is down
+  handPosition?: number;
+  reaction?: Reaction;
 }
 
 const LocalVideo = ({
   localVideoRef,
   userName,
   isSpeaking,
+  isScreenSharing = false,
+  isHost = false,
+  handPosition,
+  reaction,
 }: LocalVideoProps) => {
   return (
     <div className={
@@ -27,7 +39,13 @@ const LocalVideo = ({
         muted
         className="local-video__feed"
       />
-      {userName && <div className="local-video__label">You ({userName})</div>}
+      {userName && (
+        <div className="local-video__label">
+          {handPosition && <span className="local-video__hand" aria-label="Hand raised">✋{handPosition}</span>}
+          You ({userName}){isHost && ' (Host)'}{isScreenSharing && ' - presenting'}
+        </div>
+      )}
+      <ReactionBubble reaction={reaction} />
     </div>
   )
 }
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from "react";
+import cn from "classnames";
+
+import "./MicLevelMeter.scss";
+
+interface MicLevelMeterProps {
+  getLevel: () => number;
+  isMuted?: boolean;
+}
+
+const MicLevelMeter = ({
+  getLevel,
+  isMuted = false,
+}: MicLevelMeterProps) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  // Poll the level every frame and write it straight to the DOM - no re-render per frame
+  useEffect(() => {
+    let frameId: number;
+    const update = () => {
+      if (barRef.current) {
+        barRef.current.style.width = `${Math.round(getLevel() * 100)}%`;
+      }
+      frameId = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [getLevel]);
+
+  return (
+    <div className={cn("mic-level-meter", { "mic-level-meter--muted": isMuted })}>
+      <div ref={barRef} className="mic-level-meter__bar" />
+    </div>
+  )
+}
+
+export default MicLevelMeter;
@@ -0,0 +1,3 @@
+import MicLevelMeter from './MicLevelMeter';
+
+export default MicLevelMeter;
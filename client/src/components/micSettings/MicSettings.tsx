@@ -0,0 +1,90 @@
+import { PUSH_TO_TALK_KEY } from "../../hooks/usePushToTalk";
+import type { MicSettings as MicSettingsValue } from "../../utils/micProcessing";
+
+import "./MicSettings.scss";
+
+interface MicSettingsProps {
+  settings: MicSettingsValue;
+  onChange: (settings: MicSettingsValue) => void;
+}
+
+type BrowserProcessing = 'echoCancellation' | 'noiseSuppression' | 'autoGainControl';
+
+const BROWSER_PROCESSING: { key: BrowserProcessing; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic volume' },
+];
+
+const MicSettings = ({
+  settings,
+  onChange,
+}: MicSettingsProps) => {
+  const update = (changes: Partial<MicSettingsValue>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="mic-settings">
+      {BROWSER_PROCESSING.map(({ key, label }) => (
+        <label key={key} className="mic-settings__option">
+          <input
+            type="checkbox"
+            checked={settings[key]}
+            onChange={(e) => update({ [key]: e.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+
+      <label className="mic-settings__field" htmlFor="mic-settings-gain">
+        <span className="mic-settings__label">
+          Input volume <span>{Math.round(settings.gain * 100)}%</span>
+        </span>
+        <input
+          id="mic-settings-gain"
+          type="range"
+          min={0.5}
+          max={3}
+          step={0.1}
+          value={settings.gain}
+          onChange={(e) => update({ gain: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="mic-settings__option">
+        <input
+          type="checkbox"
+          checked={settings.noiseGate}
+          onChange={(e) => update({ noiseGate: e.target.checked })}
+        />
+        Noise gate - silence everything quieter than the threshold
+      </label>
+      {settings.noiseGate && (
+        <label className="mic-settings__field" htmlFor="mic-settings-gate">
+          <span className="mic-settings__label">
+            Threshold <span>{settings.gateThreshold} dB</span>
+          </span>
+          <input
+            id="mic-settings-gate"
+            type="range"
+            min={-80}
+            max={-20}
+            step={1}
+            value={settings.gateThreshold}
+            onChange={(e) => update({ gateThreshold: Number(e.target.value) })}
+          />
+        </label>
+      )}
+
+      <label className="mic-settings__option">
+        <input
+          type="checkbox"
+          checked={settings.pushToTalk}
+          onChange={(e) => update({ pushToTalk: e.target.checked })}
+        />
+        <span>Push to talk - hold <kbd>{PUSH_TO_TALK_KEY}</kbd> to speak</span>
+      </label>
+    </div>
+  )
+}
+
+export default MicSettings;
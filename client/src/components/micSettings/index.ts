@@ -0,0 +1,3 @@
+import MicSettings from './MicSettings';
+
+export default MicSettings;
@@ -0,0 +1,40 @@
+import { BsChevronLeft, BsChevronRight } from "react-icons/bs";
+
+import IconButton from "../iconButton";
+
+import "./Pager.scss";
+
+interface PagerProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+// Zero-based page, shown one-based
+const Pager = ({
+  page,
+  pageCount,
+  onPageChange,
+}: PagerProps) => {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="pager">
+      <IconButton
+        className="pager__button"
+        disabled={page === 0}
+        icon={<BsChevronLeft />}
+        onClick={() => onPageChange(page - 1)}
+      />
+      <span className="pager__label">{page + 1} / {pageCount}</span>
+      <IconButton
+        className="pager__button"
+        disabled={page >= pageCount - 1}
+        icon={<BsChevronRight />}
+        onClick={() => onPageChange(page + 1)}
+      />
+    </div>
+  )
+}
+
+export default Pager;
@@ -0,0 +1,3 @@
+import Pager from './Pager';
+
+export default Pager;
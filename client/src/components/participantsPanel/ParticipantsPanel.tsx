@@ -0,0 +1,142 @@
+import { useState } from "react";
+import cn from "classnames";
+import {
+  BsCameraVideoFill,
+  BsCameraVideoOffFill,
+  BsMicFill,
+  BsMicMuteFill,
+  BsVolumeMuteFill,
+  BsVolumeUpFill
+} from "react-icons/bs";
+
+import Input from "../input";
+import SidePanel from "../sidePanel";
+import TileMenu from "../tileMenu";
+import type { TileMenuItem } from "../tileMenu/TileMenu";
+
+import "./ParticipantsPanel.scss";
+
+export interface ParticipantEntry {
+  id: string;
+  name: string;
+  isSelf: boolean;
+  isHost: boolean;
+  isSpeaking: boolean;
+  isAudioEnabled: boolean;
+  isVideoEnabled: boolean;
+  // Place in the raised hands queue, undefined while the hand is down
+  handPosition?: number;
+  // Our connection to them - not set for ourselves
+  connectionState?: RTCPeerConnectionState;
+  // 0..1, not set for ourselves
+  volume?: number;
+  menuItems?: TileMenuItem[];
+}
+
+interface ParticipantsPanelProps {
+  participants: ParticipantEntry[];
+  onVolumeChange: (id: string, volume: number) => void;
+  onClose: () => void;
+}
+
+// Below this a glance is enough - no search box
+const SEARCH_MIN_PARTICIPANTS = 6;
+
+const CONNECTION_LABELS: Record<RTCPeerConnectionState, string> = {
+  new: 'Connecting',
+  connecting: 'Connecting',
+  connected: 'Connected',
+  disconnected: 'Reconnecting',
+  failed: 'Connection failed',
+  closed: 'Disconnected',
+};
+
+const ParticipantsPanel = ({
+  participants,
+  onVolumeChange,
+  onClose,
+}: ParticipantsPanelProps) => {
+  const [query, setQuery] = useState('');
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleParticipants = normalizedQuery
+    ? participants.filter(({ name }) => name.toLowerCase().includes(normalizedQuery))
+    : participants;
+
+  return (
+    <SidePanel title={`Participants (${participants.length})`} onClose={onClose} className="participants-panel">
+      {participants.length >= SEARCH_MIN_PARTICIPANTS && (
+        <Input
+          id="participants-search"
+          className="participants-panel__search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search participants"
+        />
+      )}
+
+      <ul className="participants-panel__list">
+        {visibleParticipants.map((participant) => {
+          const connectionState = participant.connectionState || 'new';
+          return (
+            <li
+              key={participant.id}
+              className={cn("participants-panel__item", {
+                "participants-panel__item--speaking": participant.isSpeaking,
+              })}
+            >
+              <div className="participants-panel__row">
+                <div className="participants-panel__identity">
+                  <span className="participants-panel__name">
+                    {participant.handPosition && <span aria-label="Hand raised">✋ </span>}
+                    {participant.name}
+                    {participant.isSelf && ' (You)'}
+                  </span>
+                  <span className="participants-panel__details">
+                    {participant.isHost && <span className="participants-panel__host-badge">Host</span>}
+                    {!participant.isSelf && (
+                      <span className={cn("participants-panel__connection", `participants-panel__connection--${connectionState}`)}>
+                        {CONNECTION_LABELS[connectionState]}
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <span className="participants-panel__media">
+                  {participant.isAudioEnabled
+                    ? <BsMicFill aria-label="Microphone on" />
+                    : <BsMicMuteFill className="participants-panel__media--off" aria-label="Muted" />}
+                  {participant.isVideoEnabled
+                    ? <BsCameraVideoFill aria-label="Camera on" />
+                    : <BsCameraVideoOffFill className="participants-panel__media--off" aria-label="Camera off" />}
+                </span>
+                <div className="participants-panel__menu">
+                  <TileMenu items={participant.menuItems || []} />
+                </div>
+              </div>
+
+              {participant.volume !== undefined && (
+                <label className="participants-panel__volume">
+                  {participant.volume === 0 ? <BsVolumeMuteFill /> : <BsVolumeUpFill />}
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={participant.volume}
+                    onChange={(e) => onVolumeChange(participant.id, Number(e.target.value))}
+                    aria-label={`Volume of ${participant.name}`}
+                  />
+                </label>
+              )}
+            </li>
+          );
+        })}
+        {visibleParticipants.length === 0 && (
+          <li className="participants-panel__empty">No one matches "{query.trim()}"</li>
+        )}
+      </ul>
+    </SidePanel>
+  )
+}
+
+export default ParticipantsPanel;
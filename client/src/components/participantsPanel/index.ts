@@ -0,0 +1,3 @@
+import ParticipantsPanel from './ParticipantsPanel';
+
+export default ParticipantsPanel;
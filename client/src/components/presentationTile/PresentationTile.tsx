@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import cn from "classnames";
+
+import "./PresentationTile.scss";
+
+interface PresentationTileProps {
+  stream: MediaStream | undefined;
+  displayName?: string;
+  sinkId?: string | null;
+  // 0..1 - the presenter's audio plays from this tile
+  volume?: number;
+  // We asked the presenter to stop sending video (audio only mode)
+  isPaused?: boolean;
+}
+
+const PresentationTile = ({
+  stream,
+  displayName,
+  sinkId,
+  volume = 1,
+  isPaused = false,
+}: PresentationTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Route audio to the selected speaker
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('setSinkId' in video)) return;
+    video.setSinkId(sinkId || '').catch((err) => console.warn('Could not set audio output device:', err));
+  }, [sinkId, stream]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+    }
+  }, [volume, stream]);
+
+  return (
+    <div className="presentation-tile">
+      {stream ? (
+        // Stays mounted while paused - it also plays the presenter's audio
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          className={cn("presentation-tile__feed", { "presentation-tile__feed--hidden": isPaused })}
+        />
+      ) : (
+        <div className="presentation-tile__placeholder">Connecting...</div>
+      )}
+      {stream && isPaused && (
+        <div className="presentation-tile__placeholder presentation-tile__placeholder--paused">
+          Screen share paused - audio only mode
+        </div>
+      )}
+      <div className="presentation-tile__label">
+        {displayName || 'Participant'} is presenting
+      </div>
+    </div>
+  )
+}
+
+export default PresentationTile;
@@ -0,0 +1,3 @@
+import PresentationTile from './PresentationTile';
+
+export default PresentationTile;
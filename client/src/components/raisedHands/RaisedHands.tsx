@@ -0,0 +1,46 @@
+import type { RaisedHand } from "../../hooks/useSockets";
+
+import "./RaisedHands.scss";
+
+interface RaisedHandsProps {
+  // Longest waiting first
+  hands: RaisedHand[];
+  names: Map<string, string>;
+  selfId: string | null;
+  // Only set for the host
+  onLower?: (id: string) => void;
+}
+
+const RaisedHands = ({
+  hands,
+  names,
+  selfId,
+  onLower,
+}: RaisedHandsProps) => {
+  if (!hands.length) return null;
+
+  return (
+    <div className="raised-hands">
+      <div className="raised-hands__title">✋ Raised hands</div>
+      <ol className="raised-hands__list">
+        {hands.map(({ id }) => (
+          <li key={id} className="raised-hands__item">
+            <span className="raised-hands__name">
+              {id === selfId ? 'You' : names.get(id) || 'Participant'}
+            </span>
+            {onLower && id !== selfId && (
+              <button
+                className="raised-hands__lower-button"
+                onClick={() => onLower(id)}
+              >
+                Lower
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+export default RaisedHands;
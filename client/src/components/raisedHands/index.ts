@@ -0,0 +1,3 @@
+import RaisedHands from './RaisedHands';
+
+export default RaisedHands;
@@ -0,0 +1,23 @@
+import type { Reaction } from "../../hooks/useSockets";
+
+import "./ReactionBubble.scss";
+
+interface ReactionBubbleProps {
+  reaction?: Reaction;
+}
+
+// Floats up over a tile while the reaction lasts
+const ReactionBubble = ({
+  reaction,
+}: ReactionBubbleProps) => {
+  if (!reaction) return null;
+
+  // A new key restarts the animation when the same emoji is sent again
+  return (
+    <div key={reaction.key} className="reaction-bubble" aria-live="polite">
+      {reaction.emoji}
+    </div>
+  )
+}
+
+export default ReactionBubble;
@@ -0,0 +1,3 @@
+import ReactionBubble from './ReactionBubble';
+
+export default ReactionBubble;
@@ -0,0 +1,51 @@
+import { useState } from "react";
+import cn from "classnames";
+import { BsEmojiSmile } from "react-icons/bs";
+
+import { REACTIONS } from "../../../../shared/protocol.mjs";
+import IconButton from "../iconButton";
+
+import "./ReactionPicker.scss";
+
+interface ReactionPickerProps {
+  onReact: (emoji: string) => void;
+  disabled?: boolean;
+}
+
+const ReactionPicker = ({
+  onReact,
+  disabled = false,
+}: ReactionPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="reaction-picker" onMouseLeave={() => setIsOpen(false)}>
+      <IconButton
+        className={cn("reaction-picker__toggle", {
+          "reaction-picker__toggle--active": isOpen,
+        })}
+        disabled={disabled}
+        icon={<BsEmojiSmile />}
+        onClick={() => setIsOpen((open) => !open)}
+      />
+      {isOpen && (
+        <div className="reaction-picker__list">
+          {REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              className="reaction-picker__item"
+              onClick={() => {
+                setIsOpen(false);
+                onReact(emoji);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ReactionPicker;
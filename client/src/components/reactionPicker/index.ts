@@ -0,0 +1,3 @@
+import ReactionPicker from './ReactionPicker';
+
+export default ReactionPicker;
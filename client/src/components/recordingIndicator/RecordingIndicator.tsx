@@ -0,0 +1,23 @@
+import "./RecordingIndicator.scss";
+
+interface RecordingIndicatorProps {
+  // Everyone currently recording, "You" included
+  names: string[];
+}
+
+const RecordingIndicator = ({
+  names,
+}: RecordingIndicatorProps) => {
+  if (names.length === 0) return null;
+
+  return (
+    <div className="recording-indicator" role="status">
+      <span className="recording-indicator__dot" />
+      <span className="recording-indicator__label">
+        Recording: {names.join(', ')}
+      </span>
+    </div>
+  )
+}
+
+export default RecordingIndicator;
@@ -0,0 +1,3 @@
+import RecordingIndicator from './RecordingIndicator';
+
+export default RecordingIndicator;
@@ -1,18 +1,62 @@
 import { useEffect, useRef } from "react";
 import cn from "classnames";
+import { BsMicMuteFill } from "react-icons/bs";
+
+import ConnectionQuality from "../connectionQuality";
+import ReactionBubble from "../reactionBubble";
+import TileMenu from "../tileMenu";
+import type { TileMenuItem } from "../tileMenu/TileMenu";
+import type { Reaction, VideoPauseReason } from "../../hooks/useSockets";
+import type { ConnectionStats } from "../../utils/connectionStats";
 
 import "./RemoteVideo.scss";
 
 interface RemoteVideoProps {
   stream: MediaStream | undefined;
   displayName?: string;
+  sinkId?: string | null;
   isSpeaking?: boolean;
+  isHost?: boolean;
+  isAudioEnabled?: boolean;
+  isVideoEnabled?: boolean;
+  menuItems?: TileMenuItem[];
+  stats?: ConnectionStats;
+  // Place in the raised hands queue (1 = next), undefined while the hand is down
+  handPosition?: number;
+  reaction?: Reaction;
+  connectionState?: RTCPeerConnectionState;
+  // 0..1, applied to the element that plays their audio
+  volume?: number;
+  // We asked them to stop sending video to save bandwidth
+  videoPausedReason?: VideoPauseReason | null;
 }
 
+const PAUSED_VIDEO_MESSAGES: Record<VideoPauseReason, string> = {
+  'audio-only': 'Video paused - audio only mode',
+  'speaker-only': 'Video paused - only the active speaker is shown',
+};
+
+const getInitials = (name?: string) => {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  return words.slice(0, 2).map((word) => word[0].toUpperCase()).join('');
+};
+
 const RemoteVideo = ({
   stream,
   displayName,
-  isSpeaking = false
+  sinkId,
+  isSpeaking = false,
+  isHost = false,
+  isAudioEnabled = true,
+  isVideoEnabled = true,
+  menuItems = [],
+  stats,
+  handPosition,
+  reaction,
+  connectionState,
+  volume = 1,
+  videoPausedReason
 }: RemoteVideoProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -28,23 +72,61 @@ const RemoteVideo = ({
     }
   }, [stream]);
 
-  return stream ? (
+  // Route audio to the selected speaker
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('setSinkId' in video)) return;
+    video.setSinkId(sinkId || '').catch((err) => console.warn('Could not set audio output device:', err));
+  }, [sinkId, stream]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+    }
+  }, [volume, stream]);
+
+  // Someone without camera and mic never sends a stream - once connected they still get a tile
+  const isReceiveOnly = !stream && connectionState === 'connected';
+  // Their camera being off says more than our pause
+  const pausedMessage = isVideoEnabled && !isReceiveOnly && videoPausedReason
+    ? PAUSED_VIDEO_MESSAGES[videoPausedReason]
+    : null;
+  const showAvatar = !isVideoEnabled || isReceiveOnly || Boolean(pausedMessage);
+
+  return (stream || isReceiveOnly) ? (
     <div className={
       cn("remote-video__container", {
         "remote-video__container--speaking": isSpeaking
       })
     }>
+      {/* Stays mounted while the camera is off - it also plays the audio */}
       <video
         ref={videoRef}
         autoPlay
         playsInline
-        className="remote-video__feed"
+        className={cn("remote-video__feed", { "remote-video__feed--hidden": showAvatar })}
       />
-      {displayName && <div className="remote-video__label">{displayName}</div>}
+      {showAvatar && (
+        <div className="remote-video__avatar">
+          <span className="remote-video__initials">{getInitials(displayName)}</span>
+          {pausedMessage && <span className="remote-video__paused">{pausedMessage}</span>}
+        </div>
+      )}
+      {displayName && (
+        <div className="remote-video__label">
+          {handPosition && <span className="remote-video__hand" aria-label="Hand raised">✋{handPosition}</span>}
+          {(!isAudioEnabled || isReceiveOnly) && <BsMicMuteFill className="remote-video__muted-icon" aria-label="Muted" />}
+          {displayName}{isHost && ' (Host)'}
+        </div>
+      )}
+      <ReactionBubble reaction={reaction} />
+      <ConnectionQuality stats={stats} />
+      <TileMenu items={menuItems} />
     </div>
   ) : (
     <div className="remote-video__container">
       <div className="remote-video__label">Connecting...</div>
+      <TileMenu items={menuItems} />
     </div>
   );
 }
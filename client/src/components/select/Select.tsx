@@ -0,0 +1,44 @@
+import type { ChangeEvent } from "react";
+
+import "./Select.scss";
+
+export interface SelectOption {
+  value: string;
+  label: string;
+}
+
+interface SelectProps {
+  id: string;
+  value: string;
+  options: SelectOption[];
+  onChange: (e: ChangeEvent<HTMLSelectElement>) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const Select = ({
+  id,
+  value,
+  options,
+  onChange,
+  disabled = false,
+  className,
+}: SelectProps) => {
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+      className={`select ${className}`}
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default Select;
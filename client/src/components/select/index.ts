@@ -0,0 +1,3 @@
+import Select from "./Select.tsx";
+
+export default Select;
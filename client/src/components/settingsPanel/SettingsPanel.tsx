@@ -0,0 +1,181 @@
+import { useState } from "react";
+
+import Button from "../button";
+import DeviceSettings from "../deviceSettings";
+import MicSettings from "../micSettings";
+import Select from "../select";
+import SidePanel from "../sidePanel";
+import VideoEffects from "../videoEffects";
+import type { VideoEffectSettings } from "../../utils/videoEffects";
+import type { MicSettings as MicSettingsValue } from "../../utils/micProcessing";
+
+import "./SettingsPanel.scss";
+
+// How much video we send and receive: everything, only the active speaker's, or none
+export type BandwidthMode = 'normal' | 'speaker-only' | 'audio-only';
+
+const BANDWIDTH_OPTIONS: { value: BandwidthMode; label: string }[] = [
+  { value: 'normal', label: 'Everyone\'s video' },
+  { value: 'speaker-only', label: 'Active speaker\'s video only' },
+  { value: 'audio-only', label: 'Audio only' },
+];
+
+interface SettingsPanelProps {
+  devices: MediaDeviceInfo[];
+  audioDeviceId: string | null;
+  videoDeviceId: string | null;
+  outputDeviceId: string | null;
+  onAudioDeviceChange: (deviceId: string) => void;
+  onVideoDeviceChange: (deviceId: string) => void;
+  onOutputDeviceChange: (deviceId: string | null) => void;
+  mediaError?: string | null;
+  micSettings?: MicSettingsValue;
+  onMicSettingsChange?: (settings: MicSettingsValue) => void;
+  videoEffects?: VideoEffectSettings;
+  videoEffectsError?: string | null;
+  onVideoEffectsChange?: (settings: VideoEffectSettings) => void;
+  onCalibrateVoiceDetection?: () => Promise<void>;
+  isHost?: boolean;
+  waitingRoomEnabled?: boolean;
+  onWaitingRoomChange?: (enabled: boolean) => void;
+  roomLocked?: boolean;
+  onRoomLockedChange?: (locked: boolean) => void;
+  onEndMeeting?: () => void;
+  bandwidthMode?: BandwidthMode;
+  onBandwidthModeChange?: (mode: BandwidthMode) => void;
+  onShowShortcuts?: () => void;
+  onClose: () => void;
+}
+
+const SettingsPanel = ({
+  mediaError,
+  micSettings,
+  onMicSettingsChange,
+  videoEffects,
+  videoEffectsError,
+  onVideoEffectsChange,
+  onCalibrateVoiceDetection,
+  isHost = false,
+  waitingRoomEnabled = false,
+  onWaitingRoomChange,
+  roomLocked = false,
+  onRoomLockedChange,
+  onEndMeeting,
+  bandwidthMode = 'normal',
+  onBandwidthModeChange,
+  onShowShortcuts,
+  onClose,
+  ...deviceSettingsProps
+}: SettingsPanelProps) => {
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const handleCalibrate = async () => {
+    if (!onCalibrateVoiceDetection) return;
+    setIsCalibrating(true);
+    try {
+      await onCalibrateVoiceDetection();
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  return (
+    <SidePanel title="Settings" onClose={onClose}>
+      <DeviceSettings {...deviceSettingsProps} />
+      {mediaError && <p className="settings-panel__error">{mediaError}</p>}
+
+      {micSettings && onMicSettingsChange && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Microphone</h3>
+          <MicSettings settings={micSettings} onChange={onMicSettingsChange} />
+        </div>
+      )}
+
+      {videoEffects && onVideoEffectsChange && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Video effects</h3>
+          <VideoEffects settings={videoEffects} onChange={onVideoEffectsChange} error={videoEffectsError} />
+        </div>
+      )}
+
+      {onBandwidthModeChange && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Bandwidth</h3>
+          <Select
+            id="settings-panel-bandwidth"
+            value={bandwidthMode}
+            options={BANDWIDTH_OPTIONS}
+            onChange={(e) => onBandwidthModeChange(e.target.value as BandwidthMode)}
+          />
+          <p className="settings-panel__hint">
+            {bandwidthMode === 'audio-only'
+              ? 'Nobody sends or receives your video - others see your camera as off.'
+              : bandwidthMode === 'speaker-only'
+                ? 'Only the person speaking sends you video. A shared screen still comes through.'
+                : 'On a slow connection, fewer videos keep the audio clear.'}
+          </p>
+        </div>
+      )}
+
+      {onCalibrateVoiceDetection && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Speaking detection</h3>
+          <p className="settings-panel__hint">
+            Stay quiet for a moment so background noise doesn't count as speaking.
+          </p>
+          <Button
+            className="settings-panel__calibrate"
+            label={isCalibrating ? 'Listening...' : 'Calibrate'}
+            disabled={isCalibrating}
+            onClick={handleCalibrate}
+          />
+        </div>
+      )}
+
+      {onShowShortcuts && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Keyboard shortcuts</h3>
+          <p className="settings-panel__hint">
+            Press <kbd>?</kbd> during the meeting to see and change them.
+          </p>
+          <Button
+            className="settings-panel__shortcuts"
+            label="Show shortcuts"
+            onClick={onShowShortcuts}
+          />
+        </div>
+      )}
+
+      {isHost && (
+        <div className="settings-panel__section">
+          <h3 className="settings-panel__section-title">Meeting</h3>
+          <label className="settings-panel__option">
+            <input
+              type="checkbox"
+              checked={waitingRoomEnabled}
+              onChange={(e) => onWaitingRoomChange?.(e.target.checked)}
+            />
+            Waiting room - admit people before they join
+          </label>
+          <label className="settings-panel__option">
+            <input
+              type="checkbox"
+              checked={roomLocked}
+              onChange={(e) => onRoomLockedChange?.(e.target.checked)}
+            />
+            Lock meeting - nobody new can join
+          </label>
+          {onEndMeeting && (
+            <Button
+              className="settings-panel__end-meeting"
+              label="End meeting for all"
+              onClick={onEndMeeting}
+            />
+          )}
+        </div>
+      )}
+    </SidePanel>
+  )
+}
+
+export default SettingsPanel;
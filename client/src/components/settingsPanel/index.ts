@@ -0,0 +1,3 @@
+import SettingsPanel from './SettingsPanel';
+
+export default SettingsPanel;
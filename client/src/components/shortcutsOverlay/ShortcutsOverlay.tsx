@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import cn from "classnames";
+import { BsXLg } from "react-icons/bs";
+
+import Button from "../button";
+import IconButton from "../iconButton";
+import { RESERVED_SHORTCUTS, SHORTCUTS, getShortcut } from "../../utils/shortcuts";
+import type { ShortcutAction, ShortcutBindings } from "../../utils/shortcuts";
+
+import "./ShortcutsOverlay.scss";
+
+interface ShortcutsOverlayProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// 'Ctrl+Shift+L' -> Ctrl, Shift, L - a trailing '+' is the plus key itself
+const splitShortcut = (shortcut: string) => shortcut.split(/\+(?!$)/);
+
+const ShortcutsOverlay = ({
+  bindings,
+  onChange,
+  onReset,
+  onClose,
+}: ShortcutsOverlayProps) => {
+  // The shortcut waiting for its new key
+  const [editing, setEditing] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Listen before everyone else so the key being bound doesn't also toggle something
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!editing) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setEditing(null);
+        setError(null);
+        return;
+      }
+
+      const shortcut = getShortcut(e);
+      if (!shortcut) return;
+      if (RESERVED_SHORTCUTS.includes(shortcut)) {
+        setError(`${shortcut} can't be used for a shortcut.`);
+        return;
+      }
+      const taken = SHORTCUTS.find(({ action }) => action !== editing && bindings[action] === shortcut);
+      if (taken) {
+        setError(`${shortcut} is already used for "${taken.label}".`);
+        return;
+      }
+
+      onChange({ ...bindings, [editing]: shortcut });
+      setEditing(null);
+      setError(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [editing, bindings, onChange, onClose]);
+
+  return (
+    <div className="shortcuts-overlay" onClick={onClose}>
+      <div
+        className="shortcuts-overlay__dialog"
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="shortcuts-overlay__header">
+          <h2 className="shortcuts-overlay__title">Keyboard shortcuts</h2>
+          <IconButton
+            className="shortcuts-overlay__close-button"
+            onClick={onClose}
+            icon={<BsXLg />}
+          />
+        </div>
+
+        <ul className="shortcuts-overlay__list">
+          {SHORTCUTS.map(({ action, label }) => (
+            <li key={action} className="shortcuts-overlay__item">
+              <span className="shortcuts-overlay__label">{label}</span>
+              <button
+                className={cn("shortcuts-overlay__keys", {
+                  "shortcuts-overlay__keys--editing": editing === action,
+                })}
+                title="Change shortcut"
+                onClick={() => {
+                  setEditing(editing === action ? null : action);
+                  setError(null);
+                }}
+              >
+                {editing === action
+                  ? 'Press a key...'
+                  : splitShortcut(bindings[action]).map((key) => <kbd key={key}>{key}</kbd>)}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <p className="shortcuts-overlay__hint">
+          Click a shortcut to change it. Hold <kbd>Space</kbd> to talk when push to talk is on.
+        </p>
+        {error && <p className="shortcuts-overlay__error">{error}</p>}
+
+        <Button
+          className="shortcuts-overlay__reset"
+          label="Reset to defaults"
+          onClick={() => {
+            onReset();
+            setEditing(null);
+            setError(null);
+          }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default ShortcutsOverlay;
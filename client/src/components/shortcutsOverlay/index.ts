@@ -0,0 +1,3 @@
+import ShortcutsOverlay from './ShortcutsOverlay';
+
+export default ShortcutsOverlay;
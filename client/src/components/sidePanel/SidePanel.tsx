@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import { BsXLg } from "react-icons/bs";
+
+import IconButton from "../iconButton";
+
+import "./SidePanel.scss";
+
+interface SidePanelProps {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+  className?: string;
+}
+
+const SidePanel = ({
+  title,
+  onClose,
+  children,
+  className,
+}: SidePanelProps) => {
+  return (
+    <aside className={`side-panel ${className}`}>
+      <div className="side-panel__header">
+        <h2 className="side-panel__title">{title}</h2>
+        <IconButton
+          className="side-panel__close-button"
+          onClick={onClose}
+          icon={<BsXLg />}
+        />
+      </div>
+      <div className="side-panel__content">
+        {children}
+      </div>
+    </aside>
+  )
+}
+
+export default SidePanel;
@@ -0,0 +1,3 @@
+import SidePanel from './SidePanel';
+
+export default SidePanel;
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { BsThreeDotsVertical } from "react-icons/bs";
+
+import IconButton from "../iconButton";
+
+import "./TileMenu.scss";
+
+export interface TileMenuItem {
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+interface TileMenuProps {
+  items: TileMenuItem[];
+}
+
+const TileMenu = ({
+  items,
+}: TileMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!items.length) return null;
+
+  return (
+    <div className="tile-menu" onMouseLeave={() => setIsOpen(false)}>
+      <IconButton
+        className="tile-menu__toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        icon={<BsThreeDotsVertical />}
+      />
+      {isOpen && (
+        <ul className="tile-menu__list">
+          {items.map((item) => (
+            <li key={item.label}>
+              <button
+                className={`tile-menu__item ${item.danger ? 'tile-menu__item--danger' : ''}`}
+                onClick={() => {
+                  setIsOpen(false);
+                  item.onClick();
+                }}
+              >
+                {item.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default TileMenu;
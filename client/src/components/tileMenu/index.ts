@@ -0,0 +1,3 @@
+import TileMenu from './TileMenu';
+
+export default TileMenu;
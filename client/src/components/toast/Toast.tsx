@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+
+import "./Toast.scss";
+
+const AUTO_DISMISS_MS = 5000;
+
+interface ToastProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+const Toast = ({
+  message,
+  onDismiss,
+}: ToastProps) => {
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  if (!message) return null;
+
+  return (
+    <div className="toast" role="status" onClick={onDismiss}>
+      {message}
+    </div>
+  )
+}
+
+export default Toast;
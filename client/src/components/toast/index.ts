@@ -0,0 +1,3 @@
+import Toast from './Toast';
+
+export default Toast;
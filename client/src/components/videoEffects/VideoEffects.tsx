@@ -0,0 +1,124 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+
+import Button from "../button";
+import Select from "../select";
+import { DEFAULT_VIDEO_EFFECTS, prepareBackgroundImage } from "../../utils/videoEffects";
+import type { BackgroundEffect, VideoEffectSettings } from "../../utils/videoEffects";
+
+import "./VideoEffects.scss";
+
+interface VideoEffectsProps {
+  settings: VideoEffectSettings;
+  onChange: (settings: VideoEffectSettings) => void;
+  error?: string | null;
+}
+
+const BACKGROUND_OPTIONS: { value: BackgroundEffect; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'blur', label: 'Blur' },
+  { value: 'image', label: 'Image' },
+];
+
+const VideoEffects = ({
+  settings,
+  onChange,
+  error,
+}: VideoEffectsProps) => {
+  const [imageError, setImageError] = useState<string | null>(null);
+
+  const update = (changes: Partial<VideoEffectSettings>) => onChange({ ...settings, ...changes });
+
+  const handleImageChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImageError(null);
+    try {
+      update({ background: 'image', backgroundImage: await prepareBackgroundImage(file) });
+    } catch (err) {
+      console.warn('Could not load background image:', err);
+      setImageError('That file is not an image we can use.');
+    }
+  };
+
+  return (
+    <div className="video-effects">
+      <label className="video-effects__field" htmlFor="video-effects-background">
+        <span className="video-effects__label">Background</span>
+        <Select
+          id="video-effects-background"
+          value={settings.background}
+          options={BACKGROUND_OPTIONS}
+          onChange={(e) => update({ background: e.target.value as BackgroundEffect })}
+        />
+      </label>
+      {settings.background !== 'none' && (
+        <p className="video-effects__hint">
+          You are picked out on this device - the model is downloaded the first time, and the whole picture stays blurred until it is ready.
+        </p>
+      )}
+
+      {settings.background === 'image' && (
+        <label className="video-effects__field" htmlFor="video-effects-image">
+          <span className="video-effects__label">
+            {settings.backgroundImage ? 'Replace image' : 'Choose an image'}
+          </span>
+          <input
+            id="video-effects-image"
+            className="video-effects__image"
+            type="file"
+            accept="image/*"
+            onChange={handleImageChange}
+          />
+        </label>
+      )}
+
+      <label className="video-effects__field" htmlFor="video-effects-brightness">
+        <span className="video-effects__label">Brightness</span>
+        <input
+          id="video-effects-brightness"
+          type="range"
+          min={0.5}
+          max={1.5}
+          step={0.05}
+          value={settings.brightness}
+          onChange={(e) => update({ brightness: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="video-effects__field" htmlFor="video-effects-contrast">
+        <span className="video-effects__label">Contrast</span>
+        <input
+          id="video-effects-contrast"
+          type="range"
+          min={0.5}
+          max={1.5}
+          step={0.05}
+          value={settings.contrast}
+          onChange={(e) => update({ contrast: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="video-effects__option">
+        <input
+          type="checkbox"
+          checked={settings.mirror}
+          onChange={(e) => update({ mirror: e.target.checked })}
+        />
+        Mirror my video
+      </label>
+
+      {(settings.brightness !== DEFAULT_VIDEO_EFFECTS.brightness || settings.contrast !== DEFAULT_VIDEO_EFFECTS.contrast) && (
+        <Button
+          className="video-effects__reset"
+          label="Reset brightness and contrast"
+          onClick={() => update({ brightness: DEFAULT_VIDEO_EFFECTS.brightness, contrast: DEFAULT_VIDEO_EFFECTS.contrast })}
+        />
+      )}
+
+      {(imageError || error) && <p className="video-effects__error">{imageError || error}</p>}
+    </div>
+  )
+}
+
+export default VideoEffects;
@@ -0,0 +1,3 @@
+import VideoEffects from './VideoEffects';
+
+export default VideoEffects;
@@ -0,0 +1,55 @@
+import Button from "../button";
+import type { MeetingExit } from "../../hooks/useSockets";
+
+import "./WaitingScreen.scss";
+
+interface WaitingScreenProps {
+  exit?: MeetingExit | null;
+  onLeave: () => void;
+}
+
+const EXIT_TITLES: Record<MeetingExit['kind'], string> = {
+  denied: "You can't join this meeting",
+  full: 'This meeting is full',
+  removed: 'You were removed from the meeting',
+  ended: 'The meeting has ended',
+  outdated: 'This page is out of date',
+};
+
+const WaitingScreen = ({
+  exit,
+  onLeave,
+}: WaitingScreenProps) => {
+  return (
+    <div className="waiting-screen">
+      <div className="waiting-screen__dialog">
+        {exit ? (
+          <>
+            <h2>{EXIT_TITLES[exit.kind]}</h2>
+            <p>{exit.reason}</p>
+          </>
+        ) : (
+          <>
+            <h2>Waiting for the host</h2>
+            <p>The host will let you in soon.</p>
+          </>
+        )}
+        {exit?.kind === 'outdated' ? (
+          <Button
+            className="waiting-screen__leave-button"
+            onClick={() => window.location.reload()}
+            label="Reload"
+          />
+        ) : (
+          <Button
+            className="waiting-screen__leave-button"
+            onClick={onLeave}
+            label={exit ? 'Back to home' : 'Leave'}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default WaitingScreen;
@@ -0,0 +1,3 @@
+import WaitingScreen from './WaitingScreen';
+
+export default WaitingScreen;
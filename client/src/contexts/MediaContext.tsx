@@ -1,5 +1,20 @@
 import React, { createContext, useContext, useCallback, useRef, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import { isSameConnectionStats } from '../utils/connectionStats';
+import type { ConnectionStats } from '../utils/connectionStats';
+import { createVoiceActivityEngine } from '../utils/voiceActivity';
+import type { VoiceActivityEngine } from '../utils/voiceActivity';
+import { createVideoEffectsPipeline, hasVideoEffects, loadVideoEffects, saveVideoEffects } from '../utils/videoEffects';
+import type { VideoEffectSettings, VideoEffectsPipeline } from '../utils/videoEffects';
+import {
+  createMicPipeline,
+  getAudioConstraints,
+  hasMicProcessing,
+  hasSameMicConstraints,
+  loadMicSettings,
+  saveMicSettings
+} from '../utils/micProcessing';
+import type { MicPipeline, MicSettings } from '../utils/micProcessing';
 
 // Types
 export interface RemotePeer {
@@ -7,8 +22,18 @@ export interface RemotePeer {
   stream?: MediaStream;
   displayName?: string;
   isSpeaking?: boolean;
+  // Mic/camera as reported by the peer - undefined until they tell us
+  isAudioEnabled?: boolean;
+  isVideoEnabled?: boolean;
+  isScreenSharing?: boolean;
+  isRecording?: boolean;
+  stats?: ConnectionStats;
+  // Of our RTCPeerConnection to them - undefined until the connection exists
+  connectionState?: RTCPeerConnectionState;
 }
 
+export type InputDeviceKind = 'audioinput' | 'videoinput';
+
 interface MediaContextValue {
   // Local media
   localStream: MediaStream | null;
@@ -16,6 +41,9 @@ interface MediaContextValue {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isSpeaking: boolean;
+  getLocalAudioLevel: () => number;
+  getRemoteAudioLevel: (id: string) => number;
+  calibrateVoiceDetection: () => Promise<void>;
 
   // Remote peers
   remotePeers: Map<string, RemotePeer>;
@@ -24,8 +52,19 @@ interface MediaContextValue {
   availableDevices: MediaDeviceInfo[];
   selectedAudioDeviceId: string | null;
   selectedVideoDeviceId: string | null;
+  selectedOutputDeviceId: string | null;
   setSelectedAudioDeviceId: (id: string | null) => void;
   setSelectedVideoDeviceId: (id: string | null) => void;
+  setSelectedOutputDeviceId: (id: string | null) => void;
+
+  // Video effects - applied to the camera before it reaches localStream
+  videoEffects: VideoEffectSettings;
+  videoEffectsError: string | null;
+  setVideoEffects: (settings: VideoEffectSettings) => void;
+
+  // Microphone processing - applied to the mic before it reaches localStream
+  micSettings: MicSettings;
+  setMicSettings: (settings: MicSettings) => Promise<void>;
 
   // Permissions & errors
   permissionStatus: { camera?: string; microphone?: string };
@@ -34,8 +73,10 @@ interface MediaContextValue {
   // Actions
   initializeMedia: () => Promise<void>;
   retryWithSelectedDevices: () => Promise<void>;
+  switchInputDevice: (kind: InputDeviceKind, deviceId: string | null) => Promise<boolean>;
   enumerateDevices: () => Promise<void>;
   toggleAudio: () => void;
+  setAudioEnabled: (enabled: boolean) => void;
   toggleVideo: () => void;
   updatePermissionStatus: () => Promise<void>;
 
@@ -44,11 +85,20 @@ interface MediaContextValue {
   updateRemotePeerStream: (id: string, stream: MediaStream) => void;
   removeRemotePeer: (id: string) => void;
   updateRemotePeerSpeaking: (id: string, isSpeaking: boolean) => void;
+  updateRemotePeerScreenSharing: (id: string, isScreenSharing: boolean) => void;
+  updateRemotePeerMediaState: (id: string, isAudioEnabled: boolean, isVideoEnabled: boolean) => void;
+  updateRemotePeerRecording: (id: string, isRecording: boolean) => void;
+  // All peers of one poll at once - a single re-render, and none when nothing changed
+  updateRemotePeerStats: (updates: Map<string, ConnectionStats>) => void;
+  updateRemotePeerConnectionState: (id: string, connectionState: RTCPeerConnectionState) => void;
 
   // Cleanup
   cleanup: () => void;
 }
 
+// Id of our own mic in the voice detection engine - remote peers use their participant id
+const LOCAL_VOICE_ID = 'local';
+
 const MediaContext = createContext<MediaContextValue | null>(null);
 
 // Hook to use the context
@@ -77,18 +127,30 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
   const [remotePeers, setRemotePeers] = useState<Map<string, RemotePeer>>(new Map());
   const remotePeersRef = useRef<Map<string, RemotePeer>>(new Map());
 
-  // Voice detection refs
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const remoteAnalysersRef = useRef<Map<string, { context: AudioContext; analyser: AnalyserNode }>>(new Map());
+  // Voice detection
+  const voiceActivityRef = useRef<VoiceActivityEngine | null>(null);
 
   // Device management state
   const [availableDevices, setAvailableDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedAudioDeviceId, setSelectedAudioDeviceId] = useState<string | null>(null);
   const [selectedVideoDeviceId, setSelectedVideoDeviceId] = useState<string | null>(null);
+  const [selectedOutputDeviceId, setSelectedOutputDeviceId] = useState<string | null>(null);
   const [permissionStatus, setPermissionStatus] = useState<{ camera?: string; microphone?: string }>({});
   const [mediaError, setMediaError] = useState<string | null>(null);
 
+  // Video effects. localStream carries the pipeline's output, the camera track itself lives here.
+  const [videoEffects, setVideoEffectsState] = useState<VideoEffectSettings>(loadVideoEffects);
+  const [videoEffectsError, setVideoEffectsError] = useState<string | null>(null);
+  const videoEffectsRef = useRef(videoEffects);
+  const rawVideoTrackRef = useRef<MediaStreamTrack | null>(null);
+  const videoPipelineRef = useRef<VideoEffectsPipeline | null>(null);
+
+  // Microphone processing, kept the same way as the video effects
+  const [micSettings, setMicSettingsState] = useState<MicSettings>(loadMicSettings);
+  const micSettingsRef = useRef(micSettings);
+  const rawAudioTrackRef = useRef<MediaStreamTrack | null>(null);
+  const micPipelineRef = useRef<MicPipeline | null>(null);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -105,18 +167,20 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     localStreamRef.current = null;
     setLocalStream(null);
 
-    // Close local audio context
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    analyserRef.current = null;
-
-    // Close all remote audio contexts
-    remoteAnalysersRef.current.forEach(({ context }) => {
-      context.close();
-    });
-    remoteAnalysersRef.current.clear();
+    // Stop the processing pipelines and the devices behind them
+    videoPipelineRef.current?.close();
+    videoPipelineRef.current = null;
+    rawVideoTrackRef.current?.stop();
+    rawVideoTrackRef.current = null;
+    micPipelineRef.current?.close();
+    micPipelineRef.current = null;
+    rawAudioTrackRef.current?.stop();
+    rawAudioTrackRef.current = null;
+
+    // Stop voice detection for us and every remote peer
+    voiceActivityRef.current?.close();
+    voiceActivityRef.current = null;
+    setIsSpeaking(false);
 
     // Clear remote peers
     remotePeersRef.current.clear();
@@ -159,98 +223,179 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     }
   };
 
-  // Voice detection for local stream
-  const setupLocalVoiceDetection = useCallback((stream: MediaStream) => {
-    try {
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const microphone = audioContext.createMediaStreamSource(stream);
-
-      analyser.smoothingTimeConstant = 0.8;
-      analyser.fftSize = 1024;
-
-      microphone.connect(analyser);
-
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-
-      const checkAudioLevel = () => {
-        if (!analyserRef.current) return;
-
-        analyser.getByteFrequencyData(dataArray);
+  const updateRemotePeerSpeaking = useCallback((id: string, isSpeaking: boolean) => {
+    const peer = remotePeersRef.current.get(id);
+    if (peer && peer.isSpeaking !== isSpeaking) {
+      peer.isSpeaking = isSpeaking;
+      remotePeersRef.current.set(id, peer);
+      setRemotePeers(new Map(remotePeersRef.current));
+    }
+  }, []);
 
-        let sum = 0;
-        for (let i = 0; i < bufferLength; i++) {
-          sum += dataArray[i];
+  // One voice detection engine for our mic and every remote peer, created on first use
+  const getVoiceActivity = useCallback(() => {
+    if (!voiceActivityRef.current) {
+      voiceActivityRef.current = createVoiceActivityEngine((id, speaking) => {
+        if (id === LOCAL_VOICE_ID) {
+          setIsSpeaking(speaking);
+        } else {
+          updateRemotePeerSpeaking(id, speaking);
         }
-        const average = sum / bufferLength;
-
-        const threshold = 15;
-        setIsSpeaking(average > threshold);
+      });
+    }
+    return voiceActivityRef.current;
+  }, [updateRemotePeerSpeaking]);
 
-        requestAnimationFrame(checkAudioLevel);
-      };
+  // Voice detection for local stream
+  const setupLocalVoiceDetection = useCallback((stream: MediaStream | null) => {
+    if (!stream?.getAudioTracks().length) {
+      voiceActivityRef.current?.removeStream(LOCAL_VOICE_ID);
+      setIsSpeaking(false);
+      return;
+    }
 
-      checkAudioLevel();
+    try {
+      getVoiceActivity().addStream(LOCAL_VOICE_ID, stream);
     } catch (error) {
       console.error('Error setting up local voice detection:', error);
     }
+  }, [getVoiceActivity]);
+
+  // Current audio levels (0..1) - polled by level meters instead of being pushed through state
+  const getLocalAudioLevel = useCallback(() => {
+    return voiceActivityRef.current?.getLevel(LOCAL_VOICE_ID) ?? 0;
+  }, []);
+
+  const getRemoteAudioLevel = useCallback((id: string) => {
+    return voiceActivityRef.current?.getLevel(id) ?? 0;
+  }, []);
+
+  // Sample our mic while the user stays quiet and set the speaking thresholds above that noise
+  const calibrateVoiceDetection = useCallback(async () => {
+    if (!voiceActivityRef.current) return;
+    await voiceActivityRef.current.calibrate(LOCAL_VOICE_ID);
   }, []);
 
   // Voice detection for remote stream
   const setupRemoteVoiceDetection = useCallback((peerId: string, stream: MediaStream) => {
     try {
-      // Clean up existing analyser for this peer
-      const existing = remoteAnalysersRef.current.get(peerId);
-      if (existing) {
-        existing.context.close();
-        remoteAnalysersRef.current.delete(peerId);
-      }
-
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const source = audioContext.createMediaStreamSource(stream);
-
-      analyser.smoothingTimeConstant = 0.8;
-      analyser.fftSize = 1024;
-
-      source.connect(analyser);
-
-      remoteAnalysersRef.current.set(peerId, { context: audioContext, analyser });
-
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-
-      const checkAudioLevel = () => {
-        const analyserData = remoteAnalysersRef.current.get(peerId);
-        if (!analyserData) return;
+      getVoiceActivity().addStream(peerId, stream);
+    } catch (error) {
+      console.error('Error setting up remote voice detection for peer', peerId, error);
+    }
+  }, [getVoiceActivity]);
+
+  // Effects can't keep up - publish the camera as it is
+  const fallBackToRawVideo = useCallback(() => {
+    const pipeline = videoPipelineRef.current;
+    const rawTrack = rawVideoTrackRef.current;
+    const current = localStreamRef.current;
+    if (!pipeline || !rawTrack || !current) return;
+
+    rawTrack.enabled = pipeline.track.enabled;
+    pipeline.close();
+    videoPipelineRef.current = null;
+    const stream = new MediaStream([...current.getAudioTracks(), rawTrack]);
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    setVideoEffectsError("Video effects were turned off because your device couldn't keep up.");
+  }, []);
 
-        analyserData.analyser.getByteFrequencyData(dataArray);
+  // The camera is gone - stop whatever was built on it
+  const releaseCamera = useCallback(() => {
+    videoPipelineRef.current?.close();
+    videoPipelineRef.current = null;
+    rawVideoTrackRef.current?.stop();
+    rawVideoTrackRef.current = null;
+  }, []);
 
-        let sum = 0;
-        for (let i = 0; i < bufferLength; i++) {
-          sum += dataArray[i];
-        }
-        const average = sum / bufferLength;
+  // Take ownership of a new camera track and return the track to publish in its place
+  const routeCameraTrack = useCallback((rawTrack: MediaStreamTrack) => {
+    videoPipelineRef.current?.close();
+    videoPipelineRef.current = null;
+    if (rawVideoTrackRef.current !== rawTrack) {
+      rawVideoTrackRef.current?.stop();
+      rawVideoTrackRef.current = rawTrack;
+    }
+    if (!hasVideoEffects(videoEffectsRef.current)) return rawTrack;
 
-        const threshold = 15;
-        const speaking = average > threshold;
+    try {
+      const pipeline = createVideoEffectsPipeline(rawTrack, videoEffectsRef.current, {
+        onOverload: fallBackToRawVideo,
+        onBackgroundError: () => setVideoEffectsError('The background effect could not be loaded - check your connection and try again.')
+      });
+      pipeline.track.enabled = rawTrack.enabled;
+      videoPipelineRef.current = pipeline;
+      return pipeline.track;
+    } catch (error) {
+      console.warn('Could not start video effects:', error);
+      setVideoEffectsError('Video effects are not supported in this browser.');
+      return rawTrack;
+    }
+  }, [fallBackToRawVideo]);
 
-        // Update peer speaking status
-        updateRemotePeerSpeaking(peerId, speaking);
+  const releaseMic = useCallback(() => {
+    micPipelineRef.current?.close();
+    micPipelineRef.current = null;
+    rawAudioTrackRef.current?.stop();
+    rawAudioTrackRef.current = null;
+  }, []);
 
-        requestAnimationFrame(checkAudioLevel);
-      };
+  // Take ownership of a new microphone track and return the track to publish in its place
+  const routeMicTrack = useCallback((rawTrack: MediaStreamTrack) => {
+    micPipelineRef.current?.close();
+    micPipelineRef.current = null;
+    if (rawAudioTrackRef.current !== rawTrack) {
+      rawAudioTrackRef.current?.stop();
+      rawAudioTrackRef.current = rawTrack;
+    }
+    if (!hasMicProcessing(micSettingsRef.current)) return rawTrack;
 
-      checkAudioLevel();
+    try {
+      const pipeline = createMicPipeline(rawTrack, micSettingsRef.current);
+      pipeline.track.enabled = rawTrack.enabled;
+      micPipelineRef.current = pipeline;
+      return pipeline.track;
     } catch (error) {
-      console.error('Error setting up remote voice detection for peer', peerId, error);
+      console.warn('Could not start microphone processing:', error);
+      return rawTrack;
     }
   }, []);
 
+  // The stream to publish for a freshly opened one - microphone and camera go through their processing
+  const routeInputStream = useCallback((stream: MediaStream) => {
+    const rawAudio = stream.getAudioTracks()[0];
+    const rawVideo = stream.getVideoTracks()[0];
+    if (!rawAudio) releaseMic();
+    if (!rawVideo) releaseCamera();
+    return new MediaStream([
+      ...(rawAudio ? [routeMicTrack(rawAudio)] : []),
+      ...(rawVideo ? [routeCameraTrack(rawVideo)] : [])
+    ]);
+  }, [releaseMic, releaseCamera, routeMicTrack, routeCameraTrack]);
+
+  const setVideoEffects = useCallback((settings: VideoEffectSettings) => {
+    videoEffectsRef.current = settings;
+    setVideoEffectsState(settings);
+    setVideoEffectsError(null);
+    saveVideoEffects(settings);
+
+    // Switching between effects keeps the running pipeline
+    if (videoPipelineRef.current && hasVideoEffects(settings)) {
+      videoPipelineRef.current.update(settings);
+      return;
+    }
+
+    const current = localStreamRef.current;
+    const rawTrack = rawVideoTrackRef.current;
+    if (!current || !rawTrack) return;
+    const track = routeCameraTrack(rawTrack);
+    if (track === current.getVideoTracks()[0]) return;
+    const stream = new MediaStream([...current.getAudioTracks(), track]);
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+  }, [routeCameraTrack]);
+
   // Initialize media
   const initializeMedia = useCallback(async () => {
     setMediaError(null);
@@ -271,11 +416,12 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
 
     let stream: MediaStream | null = null;
     let lastError: any = null;
+    const micConstraints = getAudioConstraints(micSettingsRef.current);
 
     // Try user-selected devices first
     if (selectedAudioDeviceId || selectedVideoDeviceId) {
       const constraints: MediaStreamConstraints = {
-        audio: selectedAudioDeviceId ? { deviceId: { exact: selectedAudioDeviceId } } : true,
+        audio: getAudioConstraints(micSettingsRef.current, selectedAudioDeviceId),
         video: selectedVideoDeviceId ? { deviceId: { exact: selectedVideoDeviceId } } : true
       };
       const res = await tryGetUserMedia(constraints);
@@ -285,13 +431,13 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
 
     // Fallback strategies
     if (!stream) {
-      const res = await tryGetUserMedia({ video: true, audio: true });
+      const res = await tryGetUserMedia({ video: true, audio: micConstraints });
       stream = res.stream;
       lastError = res.error || lastError;
     }
 
     if (!stream) {
-      const res = await tryGetUserMedia({ audio: true });
+      const res = await tryGetUserMedia({ audio: micConstraints });
       stream = res.stream;
       lastError = res.error || lastError;
     }
@@ -307,7 +453,7 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
       const videoInput = availableDevices.find(d => d.kind === 'videoinput');
 
       if (audioInput) {
-        const res = await tryGetUserMedia({ audio: { deviceId: { exact: audioInput.deviceId } } });
+        const res = await tryGetUserMedia({ audio: getAudioConstraints(micSettingsRef.current, audioInput.deviceId) });
         stream = res.stream;
         lastError = res.error || lastError;
       }
@@ -320,9 +466,13 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     }
 
     if (stream) {
-      localStreamRef.current = stream;
-      setLocalStream(stream);
-      setupLocalVoiceDetection(stream);
+      const published = routeInputStream(stream);
+      localStreamRef.current = published;
+      setLocalStream(published);
+      setupLocalVoiceDetection(published);
+      // Reflect the devices actually in use in the pickers
+      setSelectedAudioDeviceId(stream.getAudioTracks()[0]?.getSettings().deviceId || null);
+      setSelectedVideoDeviceId(stream.getVideoTracks()[0]?.getSettings().deviceId || null);
       setIsAudioEnabled(Boolean(stream.getAudioTracks().length && stream.getAudioTracks()[0].enabled));
       setIsVideoEnabled(Boolean(stream.getVideoTracks().length && stream.getVideoTracks()[0].enabled));
       setMediaError(null);
@@ -358,7 +508,7 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
       setIsAudioEnabled(false);
       setIsVideoEnabled(false);
     }
-  }, [selectedAudioDeviceId, selectedVideoDeviceId, availableDevices, updatePermissionStatus, enumerateDevices, setupLocalVoiceDetection]);
+  }, [selectedAudioDeviceId, selectedVideoDeviceId, availableDevices, updatePermissionStatus, enumerateDevices, setupLocalVoiceDetection, routeInputStream]);
 
   // Retry with selected devices
   const retryWithSelectedDevices = useCallback(async () => {
@@ -367,7 +517,7 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     await enumerateDevices();
 
     const constraints: MediaStreamConstraints = {
-      audio: selectedAudioDeviceId ? { deviceId: { exact: selectedAudioDeviceId } } : true,
+      audio: getAudioConstraints(micSettingsRef.current, selectedAudioDeviceId),
       video: selectedVideoDeviceId ? { deviceId: { exact: selectedVideoDeviceId } } : true
     };
 
@@ -376,9 +526,11 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     const err = res.error;
 
     if (s) {
-      localStreamRef.current = s;
-      setLocalStream(s);
-      setupLocalVoiceDetection(s);
+      localStreamRef.current?.getTracks().forEach(t => t.stop());
+      const published = routeInputStream(s);
+      localStreamRef.current = published;
+      setLocalStream(published);
+      setupLocalVoiceDetection(published);
       setIsAudioEnabled(Boolean(s.getAudioTracks().length && s.getAudioTracks()[0].enabled));
       setIsVideoEnabled(Boolean(s.getVideoTracks().length && s.getVideoTracks()[0].enabled));
       setMediaError(null);
@@ -386,7 +538,143 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
       const errName = err?.name ? `${err.name}: ` : '';
       setMediaError(`${errName}${err?.message || 'Retry failed. Check device selection and permissions.'}`);
     }
-  }, [selectedAudioDeviceId, selectedVideoDeviceId, updatePermissionStatus, enumerateDevices, setupLocalVoiceDetection]);
+  }, [selectedAudioDeviceId, selectedVideoDeviceId, updatePermissionStatus, enumerateDevices, setupLocalVoiceDetection, routeInputStream]);
+
+  // Swap a single input device on the live call. A new MediaStream is published so consumers
+  // watching localStream (peer senders, previews) pick up the new track.
+  const switchInputDevice = useCallback(async (kind: InputDeviceKind, deviceId: string | null) => {
+    const isAudio = kind === 'audioinput';
+    const current = localStreamRef.current;
+    const oldTrack = isAudio ? current?.getAudioTracks()[0] : current?.getVideoTracks()[0];
+
+    const res = await tryGetUserMedia(isAudio
+      ? { audio: getAudioConstraints(micSettingsRef.current, deviceId) }
+      : { video: deviceId ? { deviceId: { exact: deviceId } } : true });
+    const newTrack = isAudio ? res.stream?.getAudioTracks()[0] : res.stream?.getVideoTracks()[0];
+    if (!newTrack) {
+      const errName = res.error?.name ? `${res.error.name}: ` : '';
+      setMediaError(`${errName}${res.error?.message || 'Could not switch device.'}`);
+      return false;
+    }
+
+    // Keep the mute / camera-off state across the switch
+    newTrack.enabled = oldTrack ? oldTrack.enabled : true;
+    oldTrack?.stop();
+
+    const otherTracks = isAudio ? current?.getVideoTracks() : current?.getAudioTracks();
+    const publishedTrack = isAudio ? routeMicTrack(newTrack) : routeCameraTrack(newTrack);
+    const stream = new MediaStream([...(otherTracks || []), publishedTrack]);
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    setMediaError(null);
+
+    const newDeviceId = newTrack.getSettings().deviceId || deviceId;
+    if (isAudio) {
+      setSelectedAudioDeviceId(newDeviceId);
+      setIsAudioEnabled(newTrack.enabled);
+      setupLocalVoiceDetection(stream);
+    } else {
+      setSelectedVideoDeviceId(newDeviceId);
+      setIsVideoEnabled(newTrack.enabled);
+    }
+    return true;
+  }, [setupLocalVoiceDetection, routeMicTrack, routeCameraTrack]);
+
+  // Drop an input whose device is gone and has no replacement
+  const removeLocalTrack = useCallback((kind: InputDeviceKind) => {
+    const isAudio = kind === 'audioinput';
+    const current = localStreamRef.current;
+    if (!current) return;
+
+    const removed = isAudio ? current.getAudioTracks() : current.getVideoTracks();
+    removed.forEach(t => t.stop());
+    if (isAudio) {
+      releaseMic();
+    } else {
+      releaseCamera();
+    }
+    const remaining = isAudio ? current.getVideoTracks() : current.getAudioTracks();
+    const stream = remaining.length ? new MediaStream(remaining) : null;
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+
+    if (isAudio) {
+      setSelectedAudioDeviceId(null);
+      setIsAudioEnabled(false);
+      setupLocalVoiceDetection(stream);
+    } else {
+      setSelectedVideoDeviceId(null);
+      setIsVideoEnabled(false);
+    }
+  }, [setupLocalVoiceDetection, releaseMic, releaseCamera]);
+
+  const setMicSettings = useCallback(async (settings: MicSettings) => {
+    const previous = micSettingsRef.current;
+    micSettingsRef.current = settings;
+    setMicSettingsState(settings);
+    saveMicSettings(settings);
+
+    const rawTrack = rawAudioTrackRef.current;
+    const current = localStreamRef.current;
+    if (!rawTrack || !current) return;
+
+    // Browser processing is chosen when the microphone opens - reopen it
+    if (!hasSameMicConstraints(previous, settings)) {
+      await switchInputDevice('audioinput', rawTrack.getSettings().deviceId || null);
+      return;
+    }
+
+    if (micPipelineRef.current && hasMicProcessing(settings)) {
+      micPipelineRef.current.update(settings);
+      return;
+    }
+
+    const track = routeMicTrack(rawTrack);
+    if (track === current.getAudioTracks()[0]) return;
+    const stream = new MediaStream([...current.getVideoTracks(), track]);
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    setupLocalVoiceDetection(stream);
+  }, [switchInputDevice, routeMicTrack, setupLocalVoiceDetection]);
+
+  // Headset unplugged, new webcam plugged in... - refresh the device list and move off a vanished device.
+  // Newly plugged devices are only offered in the pickers, never switched to automatically.
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const recoverInput = async (devices: MediaDeviceInfo[], kind: InputDeviceKind) => {
+      // The published tracks may come from the processing pipelines - check the devices themselves
+      const track = kind === 'audioinput' ? rawAudioTrackRef.current : rawVideoTrackRef.current;
+      if (!track) return;
+
+      const deviceId = track.getSettings().deviceId;
+      const isAvailable = devices.some(d => d.kind === kind && d.deviceId === deviceId);
+      if (track.readyState === 'live' && isAvailable) return;
+
+      console.warn(`Active ${kind} device disappeared, falling back to the default one`);
+      const fallback = devices.find(d => d.kind === kind);
+      if (fallback && await switchInputDevice(kind, fallback.deviceId)) return;
+      removeLocalTrack(kind);
+    };
+
+    const handleDeviceChange = async () => {
+      try {
+        const devices = await mediaDevices.enumerateDevices();
+        setAvailableDevices(devices);
+        await recoverInput(devices, 'audioinput');
+        await recoverInput(devices, 'videoinput');
+        setSelectedOutputDeviceId(prev =>
+          prev && !devices.some(d => d.kind === 'audiooutput' && d.deviceId === prev) ? null : prev
+        );
+      } catch (err) {
+        console.warn('Error handling device change:', err);
+      }
+    };
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [switchInputDevice, removeLocalTrack]);
 
   // Toggle audio
   const toggleAudio = useCallback(() => {
@@ -395,11 +683,22 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
       const audioTrack = stream.getAudioTracks()[0];
       if (audioTrack) {
         audioTrack.enabled = !audioTrack.enabled;
+        if (rawAudioTrackRef.current) rawAudioTrackRef.current.enabled = audioTrack.enabled;
         setIsAudioEnabled(audioTrack.enabled);
       }
     }
   }, []);
 
+  // Set the microphone state explicitly, e.g. when the host mutes us
+  const setAudioEnabled = useCallback((enabled: boolean) => {
+    const audioTrack = localStreamRef.current?.getAudioTracks()[0];
+    if (audioTrack) {
+      audioTrack.enabled = enabled;
+      if (rawAudioTrackRef.current) rawAudioTrackRef.current.enabled = enabled;
+      setIsAudioEnabled(enabled);
+    }
+  }, []);
+
   // Toggle video
   const toggleVideo = useCallback(() => {
     const stream = localStreamRef.current;
@@ -407,6 +706,8 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
       const videoTrack = stream.getVideoTracks()[0];
       if (videoTrack) {
         videoTrack.enabled = !videoTrack.enabled;
+        // Keep the camera in step so falling back to it doesn't turn the video back on
+        if (rawVideoTrackRef.current) rawVideoTrackRef.current.enabled = videoTrack.enabled;
         setIsVideoEnabled(videoTrack.enabled);
       }
     }
@@ -435,10 +736,53 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     }
   }, [setupRemoteVoiceDetection]);
 
-  const updateRemotePeerSpeaking = useCallback((id: string, isSpeaking: boolean) => {
+  const updateRemotePeerScreenSharing = useCallback((id: string, isScreenSharing: boolean) => {
     const peer = remotePeersRef.current.get(id);
-    if (peer && peer.isSpeaking !== isSpeaking) {
-      peer.isSpeaking = isSpeaking;
+    if (peer && peer.isScreenSharing !== isScreenSharing) {
+      peer.isScreenSharing = isScreenSharing;
+      remotePeersRef.current.set(id, peer);
+      setRemotePeers(new Map(remotePeersRef.current));
+    }
+  }, []);
+
+  const updateRemotePeerMediaState = useCallback((id: string, isAudioEnabled: boolean, isVideoEnabled: boolean) => {
+    const peer = remotePeersRef.current.get(id);
+    if (peer && (peer.isAudioEnabled !== isAudioEnabled || peer.isVideoEnabled !== isVideoEnabled)) {
+      peer.isAudioEnabled = isAudioEnabled;
+      peer.isVideoEnabled = isVideoEnabled;
+      remotePeersRef.current.set(id, peer);
+      setRemotePeers(new Map(remotePeersRef.current));
+    }
+  }, []);
+
+  const updateRemotePeerRecording = useCallback((id: string, isRecording: boolean) => {
+    const peer = remotePeersRef.current.get(id);
+    if (peer && peer.isRecording !== isRecording) {
+      peer.isRecording = isRecording;
+      remotePeersRef.current.set(id, peer);
+      setRemotePeers(new Map(remotePeersRef.current));
+    }
+  }, []);
+
+  const updateRemotePeerStats = useCallback((updates: Map<string, ConnectionStats>) => {
+    let changed = false;
+    updates.forEach((stats, id) => {
+      const peer = remotePeersRef.current.get(id);
+      if (peer && !isSameConnectionStats(peer.stats, stats)) {
+        peer.stats = stats;
+        remotePeersRef.current.set(id, peer);
+        changed = true;
+      }
+    });
+    if (changed) {
+      setRemotePeers(new Map(remotePeersRef.current));
+    }
+  }, []);
+
+  const updateRemotePeerConnectionState = useCallback((id: string, connectionState: RTCPeerConnectionState) => {
+    const peer = remotePeersRef.current.get(id);
+    if (peer && peer.connectionState !== connectionState) {
+      peer.connectionState = connectionState;
       remotePeersRef.current.set(id, peer);
       setRemotePeers(new Map(remotePeersRef.current));
     }
@@ -446,11 +790,7 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
 
   const removeRemotePeer = useCallback((id: string) => {
     // Clean up voice detection
-    const analyser = remoteAnalysersRef.current.get(id);
-    if (analyser) {
-      analyser.context.close();
-      remoteAnalysersRef.current.delete(id);
-    }
+    voiceActivityRef.current?.removeStream(id);
 
     // Remove peer
     remotePeersRef.current.delete(id);
@@ -464,6 +804,9 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     isAudioEnabled,
     isVideoEnabled,
     isSpeaking,
+    getLocalAudioLevel,
+    getRemoteAudioLevel,
+    calibrateVoiceDetection,
 
     // Remote peers
     remotePeers,
@@ -472,8 +815,19 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     availableDevices,
     selectedAudioDeviceId,
     selectedVideoDeviceId,
+    selectedOutputDeviceId,
     setSelectedAudioDeviceId,
     setSelectedVideoDeviceId,
+    setSelectedOutputDeviceId,
+
+    // Video effects
+    videoEffects,
+    videoEffectsError,
+    setVideoEffects,
+
+    // Microphone processing
+    micSettings,
+    setMicSettings,
 
     // Permissions & errors
     permissionStatus,
@@ -482,8 +836,10 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     // Actions
     initializeMedia,
     retryWithSelectedDevices,
+    switchInputDevice,
     enumerateDevices,
     toggleAudio,
+    setAudioEnabled,
     toggleVideo,
     updatePermissionStatus,
 
@@ -492,6 +848,11 @@ export const MediaProvider: React.FC<MediaProviderProps> = ({ children }) => {
     updateRemotePeerStream,
     removeRemotePeer,
     updateRemotePeerSpeaking,
+    updateRemotePeerScreenSharing,
+    updateRemotePeerMediaState,
+    updateRemotePeerRecording,
+    updateRemotePeerStats,
+    updateRemotePeerConnectionState,
 
     // Cleanup
     cleanup
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RemotePeer } from '../contexts/MediaContext';
+
+// Someone has to keep talking this long before they take over the stage
+const SPEAKER_SWITCH_DELAY_MS = 1000;
+
+// The remote peer who spoke last, debounced so short interjections don't flip the stage back and forth
+const useActiveSpeaker = (remotePeers: Map<string, RemotePeer>) => {
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const pendingRef = useRef<{ id: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  const speakingIds = Array.from(remotePeers.values())
+    .filter((peer) => peer.isSpeaking)
+    .map((peer) => peer.id);
+  // Peers are re-created on every stats update - only react to who is actually speaking
+  const speakingKey = speakingIds.join(',');
+
+  useEffect(() => {
+    const clearPending = () => {
+      if (pendingRef.current) {
+        clearTimeout(pendingRef.current.timer);
+        pendingRef.current = null;
+      }
+    };
+
+    // The current speaker keeps the stage while they talk; silence keeps whoever spoke last
+    const candidate = speakingIds.includes(activeSpeakerId || '') ? null : speakingIds[0];
+    if (!candidate) {
+      clearPending();
+      return;
+    }
+    if (pendingRef.current?.id === candidate) return;
+
+    clearPending();
+    pendingRef.current = {
+      id: candidate,
+      timer: setTimeout(() => {
+        pendingRef.current = null;
+        setActiveSpeakerId(candidate);
+      }, SPEAKER_SWITCH_DELAY_MS)
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [speakingKey, activeSpeakerId]);
+
+  useEffect(() => () => {
+    if (pendingRef.current) {
+      clearTimeout(pendingRef.current.timer);
+    }
+  }, []);
+
+  // Fall back to the first peer until someone speaks, or when the last speaker left
+  if (activeSpeakerId && remotePeers.has(activeSpeakerId)) {
+    return activeSpeakerId;
+  }
+  return remotePeers.keys().next().value ?? null;
+};
+
+export default useActiveSpeaker;
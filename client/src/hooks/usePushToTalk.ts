@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+
+import { isTypingTarget } from '../utils/shortcuts';
+
+// KeyboardEvent.code of the key to hold
+export const PUSH_TO_TALK_KEY = 'Space';
+
+// Mutes the mic when enabled and opens it only while the key is held. Goes through setAudioEnabled,
+// so the controls and the others see the same state as with the mic button. Turning it off again
+// puts the mic back the way it was before.
+const usePushToTalk = (
+  isEnabled: boolean,
+  isAudioEnabled: boolean,
+  setAudioEnabled: (enabled: boolean) => void
+) => {
+  // Read when push to talk turns on - not a reason to re-add the listeners
+  const isAudioEnabledRef = useRef(isAudioEnabled);
+  useEffect(() => {
+    isAudioEnabledRef.current = isAudioEnabled;
+  }, [isAudioEnabled]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const wasAudioEnabled = isAudioEnabledRef.current;
+    setAudioEnabled(false);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || isTypingTarget(e.target)) return;
+      // Keep the page from scrolling or clicking the focused button
+      e.preventDefault();
+      if (!e.repeat) setAudioEnabled(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setAudioEnabled(false);
+    };
+    // The key-up never arrives when the window loses focus mid-press
+    const handleBlur = () => setAudioEnabled(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setAudioEnabled(wasAudioEnabled);
+    };
+  }, [isEnabled, setAudioEnabled]);
+};
+
+export default usePushToTalk;
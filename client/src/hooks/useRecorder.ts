@@ -0,0 +1,280 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+
+// One tile of the recording
+export interface RecordingSource {
+  id: string;
+  label: string;
+  videoStream?: MediaStream | null;
+  audioStream?: MediaStream | null;
+}
+
+interface UseRecorderProps {
+  // Called for every frame, so joins, leaves and device switches show up in the recording
+  getSources: () => RecordingSource[];
+  fileNamePrefix: string;
+  // However the recording ended - the stop button, an error or leaving the page
+  onStopped?: () => void;
+}
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+const TILE_GAP = 8;
+const LABEL_FONT = '500 18px sans-serif';
+const BACKGROUND_COLOR = '#222';
+const TILE_COLOR = '#000';
+
+// Preferred first - Chrome and Firefox both do VP8/Opus, only Chrome does VP9
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+// Timers in a worker are not throttled in background tabs like setInterval on the page, so the
+// recording keeps its frame rate while the presenter is in another tab
+const TICKER_SOURCE = `
+let timer;
+onmessage = ({ data: intervalMs }) => {
+  clearInterval(timer);
+  if (intervalMs) timer = setInterval(() => postMessage(null), intervalMs);
+};
+`;
+
+// Calls onTick every intervalMs, returns a function that stops it
+const startTicker = (intervalMs: number, onTick: () => void) => {
+  const url = URL.createObjectURL(new Blob([TICKER_SOURCE], { type: 'application/javascript' }));
+  try {
+    const worker = new Worker(url);
+    worker.onmessage = onTick;
+    worker.postMessage(intervalMs);
+    return () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+  } catch (error) {
+    console.warn('Worker timers unavailable, recording may stall in background tabs:', error);
+    URL.revokeObjectURL(url);
+    const timer = setInterval(onTick, intervalMs);
+    return () => clearInterval(timer);
+  }
+};
+
+const drawLabel = (context: CanvasRenderingContext2D, label: string, x: number, y: number) => {
+  context.font = LABEL_FONT;
+  const width = context.measureText(label).width;
+  context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  context.fillRect(x + 5, y + 5, width + 8, 26);
+  context.fillStyle = '#fff';
+  context.textBaseline = 'middle';
+  context.fillText(label, x + 9, y + 18);
+};
+
+const useRecorder = ({ getSources, fileNamePrefix, onStopped }: UseRecorderProps) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const getSourcesRef = useRef(getSources);
+  const onStoppedRef = useRef(onStopped);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const stopDrawingRef = useRef<(() => void) | null>(null);
+  // Off-screen <video> per source, needed to draw a MediaStream onto the canvas
+  const videoElementsRef = useRef<Map<string, HTMLVideoElement>>(new Map());
+  // Every audio track in the meeting is mixed into one destination, keyed by track id
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const audioNodesRef = useRef<Map<string, MediaStreamAudioSourceNode>>(new Map());
+
+  useEffect(() => {
+    getSourcesRef.current = getSources;
+  }, [getSources]);
+
+  useEffect(() => {
+    onStoppedRef.current = onStopped;
+  }, [onStopped]);
+
+  const syncVideoElements = useCallback((sources: RecordingSource[]) => {
+    const elements = videoElementsRef.current;
+    sources.forEach(({ id, videoStream }) => {
+      let element = elements.get(id);
+      if (!element) {
+        element = document.createElement('video');
+        element.muted = true;
+        element.playsInline = true;
+        elements.set(id, element);
+      }
+      if (element.srcObject !== (videoStream || null)) {
+        element.srcObject = videoStream || null;
+        element.play().catch(() => {});
+      }
+    });
+    elements.forEach((element, id) => {
+      if (!sources.some((source) => source.id === id)) {
+        element.srcObject = null;
+        elements.delete(id);
+      }
+    });
+  }, []);
+
+  const syncAudioNodes = useCallback((sources: RecordingSource[]) => {
+    const audioContext = audioContextRef.current;
+    const destination = audioDestinationRef.current;
+    if (!audioContext || !destination) return;
+
+    const tracks = sources.flatMap(({ audioStream }) => audioStream?.getAudioTracks() || []);
+    const nodes = audioNodesRef.current;
+    tracks.forEach((track) => {
+      if (nodes.has(track.id) || track.readyState === 'ended') return;
+      const node = audioContext.createMediaStreamSource(new MediaStream([track]));
+      node.connect(destination);
+      nodes.set(track.id, node);
+    });
+    nodes.forEach((node, trackId) => {
+      if (!tracks.some((track) => track.id === trackId)) {
+        node.disconnect();
+        nodes.delete(trackId);
+      }
+    });
+  }, []);
+
+  // Lay the sources out like the meeting grid and paint one frame
+  const drawFrame = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const sources = getSourcesRef.current();
+    syncVideoElements(sources);
+    syncAudioNodes(sources);
+
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    if (sources.length === 0) return;
+
+    const columns = Math.ceil(Math.sqrt(sources.length));
+    const rows = Math.ceil(sources.length / columns);
+    const tileWidth = (canvas.width - TILE_GAP * (columns + 1)) / columns;
+    const tileHeight = (canvas.height - TILE_GAP * (rows + 1)) / rows;
+
+    sources.forEach((source, index) => {
+      const x = TILE_GAP + (index % columns) * (tileWidth + TILE_GAP);
+      const y = TILE_GAP + Math.floor(index / columns) * (tileHeight + TILE_GAP);
+      context.fillStyle = TILE_COLOR;
+      context.fillRect(x, y, tileWidth, tileHeight);
+
+      // Same as object-fit: contain on the tiles
+      const element = videoElementsRef.current.get(source.id);
+      if (element && element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && element.videoWidth) {
+        const scale = Math.min(tileWidth / element.videoWidth, tileHeight / element.videoHeight);
+        const width = element.videoWidth * scale;
+        const height = element.videoHeight * scale;
+        context.drawImage(element, x + (tileWidth - width) / 2, y + (tileHeight - height) / 2, width, height);
+      }
+      drawLabel(context, source.label, x, y);
+    });
+  }, [syncVideoElements, syncAudioNodes]);
+
+  const teardown = useCallback(() => {
+    stopDrawingRef.current?.();
+    stopDrawingRef.current = null;
+    videoElementsRef.current.forEach((element) => {
+      element.srcObject = null;
+    });
+    videoElementsRef.current.clear();
+    audioNodesRef.current.forEach((node) => node.disconnect());
+    audioNodesRef.current.clear();
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    audioDestinationRef.current = null;
+    canvasRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+  }, []);
+
+  // Hand the finished recording to the browser as a download
+  const saveRecording = useCallback((chunks: Blob[], mimeType: string) => {
+    if (chunks.length === 0) return;
+    const blob = new Blob(chunks, { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileNamePrefix}-${timestamp}.webm`;
+    link.click();
+    // Give the download a moment to start before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  }, [fileNamePrefix]);
+
+  const startRecording = useCallback(() => {
+    if (recorderRef.current) return true;
+    if (typeof MediaRecorder === 'undefined') {
+      console.warn('MediaRecorder is not supported in this browser');
+      return false;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    canvasRef.current = canvas;
+
+    const audioContext = new AudioContext();
+    audioContextRef.current = audioContext;
+    audioDestinationRef.current = audioContext.createMediaStreamDestination();
+
+    drawFrame();
+    stopDrawingRef.current = startTicker(1000 / FRAME_RATE, drawFrame);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...audioDestinationRef.current.stream.getAudioTracks()
+    ]);
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.error('Could not start recording:', error);
+      stream.getTracks().forEach((track) => track.stop());
+      teardown();
+      return false;
+    }
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      saveRecording(chunks, recorder.mimeType || 'video/webm');
+      teardown();
+      onStoppedRef.current?.();
+    };
+
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    setIsRecording(true);
+    console.log('Recording started with', recorder.mimeType);
+    return true;
+  }, [drawFrame, saveRecording, teardown]);
+
+  // The file is offered once the recorder has flushed its last chunk
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  // Leaving the meeting still saves what was recorded so far
+  useEffect(() => stopRecording, [stopRecording]);
+
+  return {
+    isRecording,
+    startRecording,
+    stopRecording
+  };
+};
+
+export default useRecorder;
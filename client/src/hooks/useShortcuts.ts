@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  getShortcut,
+  isTypingTarget,
+  loadShortcutBindings,
+  saveShortcutBindings
+} from '../utils/shortcuts';
+import type { ShortcutAction, ShortcutBindings } from '../utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Runs the handler bound to each key press while enabled, and keeps the user's bindings
+const useShortcuts = (handlers: ShortcutHandlers, isEnabled = true) => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+  // The handlers change every render - read the latest ones instead of re-adding the listener
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.defaultPrevented || isTypingTarget(e.target)) return;
+      const shortcut = getShortcut(e);
+      const action = (Object.keys(bindings) as ShortcutAction[]).find((key) => bindings[key] === shortcut);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, isEnabled]);
+
+  const updateBindings = useCallback((newBindings: ShortcutBindings) => {
+    setBindings(newBindings);
+    saveShortcutBindings(newBindings);
+  }, []);
+
+  const resetBindings = useCallback(() => updateBindings(DEFAULT_SHORTCUT_BINDINGS), [updateBindings]);
+
+  return { bindings, updateBindings, resetBindings };
+};
+
+export default useShortcuts;
@@ -1,32 +1,159 @@
 import { useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { PROTOCOL_VERSION } from '../../../shared/protocol.mjs';
+import type {
+  ChatMessage,
+  ClientToServerEvents,
+  ParticipantInfo,
+  RaisedHand,
+  ServerToClientEvents,
+  SignalingError,
+  VideoPauseReason,
+  WaitingParticipantInfo
+} from '../../../shared/protocol.mjs';
 import { useMediaContext } from '../contexts/MediaContext';
+import { collectConnectionStats } from '../utils/connectionStats';
+import type { ConnectionStats, StatsSnapshot } from '../utils/connectionStats';
+import { fetchIceConfiguration } from '../utils/iceServers';
+import { loadHostSecret } from '../utils/rooms';
+import { getServerUrl } from '../utils/serverUrl';
+import { getVideoEncodingLimits } from '../utils/videoEncoding';
+import type { TileSize, VideoEncodingLimits } from '../utils/videoEncoding';
 
 export interface PeerConnection {
   peer: RTCPeerConnection;
   stream?: MediaStream;
   isSpeaking?: boolean;
-  addedLocalTracks?: boolean;
+  audioSender?: RTCRtpSender;
+  videoSender?: RTCRtpSender;
   displayName?: string;
   pendingIceCandidates?: RTCIceCandidateInit[];
+  // Perfect negotiation state - the polite side yields when both offers collide
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  // An answer is being applied - the connection is about to be stable again
+  isSettingRemoteAnswerPending: boolean;
+  iceRestartTimer?: ReturnType<typeof setTimeout>;
+  // Latest getStats() figures and the raw counters they were derived from
+  stats?: ConnectionStats;
+  statsSnapshot?: StatsSnapshot;
+  // The encoding we last applied to our video for this peer
+  encodingLimits?: VideoEncodingLimits;
 }
 
+// Signaling connection as shown to the user
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'lost';
+
+// Why we are out of the meeting (shown instead of the call)
+export interface MeetingExit {
+  kind: 'denied' | 'full' | 'removed' | 'ended' | 'outdated';
+  reason: string;
+}
+
+// Someone knocking while the waiting room is on
+export type WaitingParticipant = WaitingParticipantInfo;
+
+// Chat message as relayed (and kept in the room's history) by the server
+export type { ChatMessage, RaisedHand, VideoPauseReason };
+
+// The reaction a participant sent last - key changes with every reaction, so the same emoji animates again
+export interface Reaction {
+  emoji: string;
+  key: number;
+}
+
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
 interface UseSocketsProps {
   roomId: string;
   userName: string;
 }
 
-const ICE_SERVERS = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' }
-  ]
-};
+// A 'disconnected' ICE state often recovers by itself - only restart if it persists
+const ICE_DISCONNECTED_RESTART_DELAY_MS = 3000;
+const STATS_POLL_INTERVAL_MS = 2000;
+// How long a reaction stays on a tile
+const REACTION_DURATION_MS = 4000;
 
 const useSockets = ({ roomId, userName }: UseSocketsProps) => {
-  const { localStreamRef, addRemotePeer, updateRemotePeerStream, removeRemotePeer } = useMediaContext();
+  const {
+    localStreamRef,
+    addRemotePeer,
+    updateRemotePeerStream,
+    removeRemotePeer,
+    updateRemotePeerScreenSharing,
+    updateRemotePeerMediaState,
+    updateRemotePeerRecording,
+    updateRemotePeerStats,
+    updateRemotePeerConnectionState,
+    setAudioEnabled
+  } = useMediaContext();
   const [peers, setPeers] = useState<Map<string, PeerConnection>>(new Map());
-  const socketRef = useRef<Socket | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [waitingRoomEnabled, setWaitingRoomEnabled] = useState(false);
+  const [roomLocked, setRoomLocked] = useState(false);
+  const [waitingList, setWaitingList] = useState<WaitingParticipant[]>([]);
+  const [isWaitingForHost, setIsWaitingForHost] = useState(false);
+  const [meetingExit, setMeetingExit] = useState<MeetingExit | null>(null);
+  // Short-lived message from the host ("The host muted you")
+  const [notice, setNotice] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Messages from others that arrived since the chat was last read
+  const [unreadChatCount, setUnreadChatCount] = useState(0);
+  const [raisedHands, setRaisedHands] = useState<RaisedHand[]>([]);
+  // Keyed by participant id, ours included
+  const [reactions, setReactions] = useState<Map<string, Reaction>>(new Map());
+  const socketRef = useRef<SignalingSocket | null>(null);
   const peersRef = useRef<Map<string, PeerConnection>>(new Map());
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  // Every sender is associated with this one stream, so the remote side always sees a single
+  // stream from us no matter how often local tracks are swapped
+  const outgoingStreamRef = useRef<MediaStream>(new MediaStream());
+  // ICE servers fetched from the server before joining - no peer connection exists before that
+  const rtcConfigurationRef = useRef<RTCConfiguration>({});
+  // Our participant id and resume token, issued by the server on join and kept across reconnects
+  const selfIdRef = useRef<string | null>(null);
+  const reconnectTokenRef = useRef<string | null>(null);
+  // Set by rejoin: the next join resumes our session without the peer connections we dropped
+  const restartSessionRef = useRef(false);
+  // Our mic/camera and recording state - re-announced if the server gives us a fresh session
+  const mediaStateRef = useRef({ audio: true, video: true });
+  const isRecordingRef = useRef(false);
+  const isHandRaisedRef = useRef(false);
+  const reactionKeyRef = useRef(0);
+  const statsTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Tile sizes we last told each peer about, and how each peer shows our video. The latter is kept
+  // apart from peersRef since it can arrive before we have a connection to that peer.
+  const reportedTileSizesRef = useRef<Map<string, TileSize>>(new Map());
+  const remoteTileSizesRef = useRef<Map<string, TileSize>>(new Map());
+  // Same for video pauses: the peers we asked to stop sending us video, and the peers who asked us
+  const requestedVideoPausesRef = useRef<Map<string, VideoPauseReason>>(new Map());
+  const remoteVideoPausesRef = useRef<Map<string, VideoPauseReason>>(new Map());
+  // Audio-only mode - the camera goes to nobody (a shared screen still does)
+  const isCameraPausedRef = useRef(false);
+
+  // Helper to restart ICE on a peer - perfect negotiation sends the resulting offer
+  const restartIce = useCallback(async (peerConnection: PeerConnection, peerId: string) => {
+    const { peer } = peerConnection;
+    clearTimeout(peerConnection.iceRestartTimer);
+    peerConnection.iceRestartTimer = undefined;
+    if (peer.connectionState === 'closed') return;
+
+    try {
+      // An offer lost while signaling was down would otherwise block renegotiation forever
+      if (peer.signalingState === 'have-local-offer') {
+        await peer.setLocalDescription({ type: 'rollback' });
+      }
+      console.log('Restarting ICE for', peerId);
+      peer.restartIce();
+    } catch (error) {
+      console.error('Error restarting ICE for', peerId, error);
+    }
+  }, []);
 
   // Helper function to setup common peer connection handlers
   const setupPeerConnectionHandlers = useCallback((
@@ -37,10 +164,31 @@ const useSockets = ({ roomId, userName }: UseSocketsProps) => {
     // Monitor connection state
     peer.oniceconnectionstatechange = () => {
       console.log('ICE connection state for', peerId, ':', peer.iceConnectionState);
+      switch (peer.iceConnectionState) {
+        case 'failed':
+          restartIce(peerConnection, peerId);
+          break;
+        case 'disconnected':
+          if (!peerConnection.iceRestartTimer) {
+            peerConnection.iceRestartTimer = setTimeout(() => {
+              peerConnection.iceRestartTimer = undefined;
+              if (peer.iceConnectionState === 'disconnected') {
+                restartIce(peerConnection, peerId);
+              }
+            }, ICE_DISCONNECTED_RESTART_DELAY_MS);
+          }
+          break;
+        case 'connected':
+        case 'completed':
+          clearTimeout(peerConnection.iceRestartTimer);
+          peerConnection.iceRestartTimer = undefined;
+          break;
+      }
     };
 
     peer.onconnectionstatechange = () => {
       console.log('Connection state for', peerId, ':', peer.connectionState);
+      updateRemotePeerConnectionState(peerId, peer.connectionState);
     };
 
     // Handle ICE candidates
@@ -66,76 +214,58 @@ const useSockets = ({ roomId, userName }: UseSocketsProps) => {
         console.error('No stream in track event for peer:', peerId);
       }
     };
-  }, [updateRemotePeerStream]);
-
-  // Helper function to add local tracks to a peer
-  const addLocalTracksToPeer = useCallback((peer: RTCPeerConnection, peerConnection: PeerConnection) => {
-    const stream = localStreamRef.current;
-    if (stream) {
-      stream.getTracks().forEach(track => {
-        peer.addTrack(track, stream);
-        console.log('Added track:', track.kind, 'to peer connection');
-      });
-      peerConnection.addedLocalTracks = true;
-    } else {
-      console.log('No local media available — creating receive-only peer connection');
-    }
-  }, [localStreamRef]);
-
-  // Function to add local tracks to all existing peer connections
-  const addLocalTracksToAllPeers = useCallback(() => {
-    const stream = localStreamRef.current;
-    if (!stream) return;
+  }, [updateRemotePeerStream, updateRemotePeerConnectionState, restartIce]);
 
-    console.log('Adding local tracks to all existing peers');
-    peersRef.current.forEach((peerConnection, userId) => {
-      if (!peerConnection.addedLocalTracks) {
-        console.log('Adding tracks to peer:', userId);
-        stream.getTracks().forEach(track => {
-          try {
-            peerConnection.peer.addTrack(track, stream);
-            console.log('Added track:', track.kind, 'to existing peer connection');
-          } catch (error) {
-            console.error('Error adding track to peer:', error);
-          }
-        });
-        peerConnection.addedLocalTracks = true;
-        peersRef.current.set(userId, peerConnection);
-      }
-    });
-    setPeers(new Map(peersRef.current));
+  // Helper to pick the outgoing video track for a peer - the screen share takes the camera's place
+  // while active, and a peer who paused our video gets none
+  const getOutgoingVideoTrack = useCallback((peerId: string) => {
+    if (remoteVideoPausesRef.current.has(peerId)) return null;
+    const screenTrack = screenStreamRef.current?.getVideoTracks()[0];
+    if (screenTrack) return screenTrack;
+    return isCameraPausedRef.current ? null : localStreamRef.current?.getVideoTracks()[0] || null;
   }, [localStreamRef]);
 
-  const createPeerConnection = useCallback((userId: string, isInitiator: boolean) => {
-    console.log('Creating peer connection to:', userId, 'isInitiator:', isInitiator);
-    const peer = new RTCPeerConnection(ICE_SERVERS);
-    const peerConnection: PeerConnection = { peer };
-
-    // Setup common handlers
-    setupPeerConnectionHandlers(peer, peerConnection, userId);
+  // Point a peer's sender at the given track - replaceTrack avoids renegotiation,
+  // only a peer that never sent this kind of media needs a new sender
+  const syncSender = useCallback((
+    peerConnection: PeerConnection,
+    senderKey: 'audioSender' | 'videoSender',
+    track: MediaStreamTrack | null
+  ) => {
+    const sender = peerConnection[senderKey];
+    if (sender) {
+      return sender.track === track ? Promise.resolve() : sender.replaceTrack(track);
+    }
+    if (track) {
+      // Assigned synchronously so concurrent syncs never add the same kind twice
+      peerConnection[senderKey] = peerConnection.peer.addTrack(track, outgoingStreamRef.current);
+      console.log('Added track:', track.kind, 'to peer connection');
+    }
+    return Promise.resolve();
+  }, []);
 
-    // Add local tracks if available
-    addLocalTracksToPeer(peer, peerConnection);
+  // Bring one peer's senders in line with the current local media
+  const syncLocalTracksToPeer = useCallback(async (peerConnection: PeerConnection, peerId: string) => {
+    const audioTrack = localStreamRef.current?.getAudioTracks()[0] || null;
+    await Promise.all([
+      syncSender(peerConnection, 'audioSender', audioTrack),
+      syncSender(peerConnection, 'videoSender', getOutgoingVideoTrack(peerId))
+    ]);
+  }, [localStreamRef, syncSender, getOutgoingVideoTrack]);
 
-    // Store peer connection
-    peersRef.current.set(userId, peerConnection);
+  // Sync every peer after local media changed (media came up, device switched or lost, screen share)
+  const syncLocalTracksToAllPeers = useCallback(async () => {
+    console.log('Syncing local tracks to all peers');
+    const updates = Array.from(peersRef.current.entries()).map(async ([userId, peerConnection]) => {
+      try {
+        await syncLocalTracksToPeer(peerConnection, userId);
+      } catch (error) {
+        console.error('Error syncing local tracks to peer:', userId, error);
+      }
+    });
+    await Promise.all(updates);
     setPeers(new Map(peersRef.current));
-
-    // If initiator, create offer
-    if (isInitiator) {
-      peer.onnegotiationneeded = async () => {
-        try {
-          const offer = await peer.createOffer();
-          await peer.setLocalDescription(offer);
-          if (socketRef.current) {
-            socketRef.current.emit('offer', { offer, to: userId });
-          }
-        } catch (error) {
-          console.error('Error creating offer:', error);
-        }
-      };
-    }
-  }, [setupPeerConnectionHandlers, addLocalTracksToPeer]);
+  }, [syncLocalTracksToPeer]);
 
   // Helper to process pending ICE candidates
   const processPendingIceCandidates = useCallback(async (peer: RTCPeerConnection, peerConnection: PeerConnection, peerId: string) => {
@@ -152,46 +282,294 @@ const useSockets = ({ roomId, userName }: UseSocketsProps) => {
     }
   }, []);
 
-  const handleOffer = useCallback(async (offer: RTCSessionDescriptionInit, from: string) => {
-    console.log('Handling offer from:', from);
-    const peer = new RTCPeerConnection(ICE_SERVERS);
-    const peerConnection: PeerConnection = { peer };
+  // Returns the existing connection for a peer or creates one - there is never more than one per peer
+  const getOrCreatePeerConnection = useCallback((userId: string) => {
+    const existing = peersRef.current.get(userId);
+    if (existing) return existing;
+
+    // Both sides compare socket ids so exactly one of them ends up polite
+    const polite = (selfIdRef.current ?? '') < userId;
+    console.log('Creating peer connection to:', userId, 'polite:', polite);
+    const peer = new RTCPeerConnection(rtcConfigurationRef.current);
+    const peerConnection: PeerConnection = {
+      peer,
+      polite,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false
+    };
 
     // Setup common handlers
-    setupPeerConnectionHandlers(peer, peerConnection, from);
+    setupPeerConnectionHandlers(peer, peerConnection, userId);
 
-    // Add local tracks if available
-    addLocalTracksToPeer(peer, peerConnection);
+    // Either side may renegotiate at any time (tracks added later, screen share, device swaps)
+    peer.onnegotiationneeded = async () => {
+      try {
+        peerConnection.makingOffer = true;
+        await peer.setLocalDescription();
+        if (socketRef.current && peer.localDescription) {
+          socketRef.current.emit('offer', { offer: peer.localDescription, to: userId });
+        }
+      } catch (error) {
+        console.error('Error creating offer:', error);
+      } finally {
+        peerConnection.makingOffer = false;
+      }
+    };
+
+    // Store peer connection before adding tracks so negotiation finds it
+    peersRef.current.set(userId, peerConnection);
+    setPeers(new Map(peersRef.current));
 
-    // Set remote description and process pending ICE candidates
-    await peer.setRemoteDescription(new RTCSessionDescription(offer));
-    await processPendingIceCandidates(peer, peerConnection, from);
+    // Add local tracks if available, otherwise this stays a receive-only connection for now
+    syncLocalTracksToPeer(peerConnection, userId).catch((error) => {
+      console.error('Error adding local tracks to peer:', userId, error);
+    });
 
-    // Create and send answer
-    const answer = await peer.createAnswer();
-    await peer.setLocalDescription(answer);
+    return peerConnection;
+  }, [setupPeerConnectionHandlers, syncLocalTracksToPeer]);
 
-    if (socketRef.current) {
-      socketRef.current.emit('answer', { answer, to: from });
+  const handleOffer = useCallback(async (offer: RTCSessionDescriptionInit, from: string) => {
+    console.log('Handling offer from:', from);
+    const peerConnection = getOrCreatePeerConnection(from);
+    const { peer } = peerConnection;
+
+    // Glare: we are mid-offer ourselves - the impolite side ignores the incoming offer,
+    // the polite side rolls its own offer back implicitly in setRemoteDescription.
+    // An answer still being applied is no collision - the offer is queued behind it.
+    const readyForOffer = !peerConnection.makingOffer
+      && (peer.signalingState === 'stable' || peerConnection.isSettingRemoteAnswerPending);
+    const offerCollision = !readyForOffer;
+    peerConnection.ignoreOffer = !peerConnection.polite && offerCollision;
+    if (peerConnection.ignoreOffer) {
+      console.log('Ignoring colliding offer from:', from);
+      return;
     }
 
-    // Store peer connection
-    peersRef.current.set(from, peerConnection);
-    setPeers(new Map(peersRef.current));
-  }, [setupPeerConnectionHandlers, addLocalTracksToPeer, processPendingIceCandidates]);
+    try {
+      // Set remote description and process pending ICE candidates
+      await peer.setRemoteDescription(offer);
+      await processPendingIceCandidates(peer, peerConnection, from);
+
+      // Create and send answer
+      await peer.setLocalDescription();
+      if (socketRef.current && peer.localDescription) {
+        socketRef.current.emit('answer', { answer: peer.localDescription, to: from });
+      }
+    } catch (error) {
+      console.error('Error handling offer from', from, error);
+    }
+  }, [getOrCreatePeerConnection, processPendingIceCandidates]);
+
+  const handleAnswer = useCallback(async (answer: RTCSessionDescriptionInit, from: string) => {
+    const peerConnection = peersRef.current.get(from);
+    if (!peerConnection) {
+      console.warn('Received answer for unknown peer:', from);
+      return;
+    }
+
+    try {
+      peerConnection.isSettingRemoteAnswerPending = true;
+      await peerConnection.peer.setRemoteDescription(answer);
+      await processPendingIceCandidates(peerConnection.peer, peerConnection, from);
+    } catch (error) {
+      // Can happen when our offer was rolled back after a collision
+      console.error('Error applying answer from', from, error);
+    } finally {
+      peerConnection.isSettingRemoteAnswerPending = false;
+    }
+  }, [processPendingIceCandidates]);
 
   const removePeer = useCallback((userId: string) => {
     const peerConnection = peersRef.current.get(userId);
     if (peerConnection) {
+      clearTimeout(peerConnection.iceRestartTimer);
       peerConnection.peer.close();
       peersRef.current.delete(userId);
       setPeers(new Map(peersRef.current));
     }
+    reportedTileSizesRef.current.delete(userId);
+    remoteTileSizesRef.current.delete(userId);
+    requestedVideoPausesRef.current.delete(userId);
+    remoteVideoPausesRef.current.delete(userId);
 
     // Remove from MediaContext
     removeRemotePeer(userId);
   }, [removeRemotePeer]);
 
+  const stopScreenShare = useCallback(async () => {
+    const stream = screenStreamRef.current;
+    if (!stream) return;
+
+    stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    screenStreamRef.current = null;
+    setScreenStream(null);
+
+    // Revert every peer back to the camera track (or nothing if there is no camera)
+    await syncLocalTracksToAllPeers();
+    socketRef.current?.emit('screen-share', { isSharing: false });
+  }, [syncLocalTracksToAllPeers]);
+
+  const startScreenShare = useCallback(async () => {
+    if (screenStreamRef.current) return;
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      console.warn('getDisplayMedia is not supported in this browser');
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (error) {
+      // The user dismissed the picker or the capture was blocked
+      console.warn('Screen share was not started:', error);
+      return;
+    }
+
+    const screenTrack = stream.getVideoTracks()[0];
+    if (!screenTrack) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    // Favour sharpness over motion for slides and code
+    screenTrack.contentHint = 'detail';
+    // Fired when the user clicks the browser's own "Stop sharing" bar
+    screenTrack.onended = () => {
+      console.log('Screen share ended by the browser');
+      stopScreenShare();
+    };
+
+    screenStreamRef.current = stream;
+    setScreenStream(stream);
+
+    // Swap the screen into every peer without tearing the connections down
+    await syncLocalTracksToAllPeers();
+    socketRef.current?.emit('screen-share', { isSharing: true });
+  }, [syncLocalTracksToAllPeers, stopScreenShare]);
+
+  // Fit our outgoing video to the mesh size, the measured uplink and how large this peer shows us
+  const applyVideoEncoding = useCallback(async (peerConnection: PeerConnection, peerId: string) => {
+    const { videoSender } = peerConnection;
+    if (!videoSender?.track) return;
+
+    const limits = getVideoEncodingLimits({
+      peerCount: peersRef.current.size,
+      tileSize: remoteTileSizesRef.current.get(peerId) || 'large',
+      isScreenSharing: Boolean(screenStreamRef.current),
+      availableOutgoingBitrate: peerConnection.stats?.availableOutgoingBitrate
+    });
+    const current = peerConnection.encodingLimits;
+    if (current
+      && current.maxBitrate === limits.maxBitrate
+      && current.scaleResolutionDownBy === limits.scaleResolutionDownBy
+      && current.maxFramerate === limits.maxFramerate) {
+      return;
+    }
+
+    const parameters = videoSender.getParameters();
+    // Encodings only exist once the sender has been negotiated
+    if (!parameters.encodings?.length) return;
+    parameters.encodings[0] = { ...parameters.encodings[0], ...limits };
+    try {
+      await videoSender.setParameters(parameters);
+      peerConnection.encodingLimits = limits;
+      console.log('Video encoding for', peerId, ':', limits);
+    } catch (error) {
+      console.warn('Could not set video encoding for', peerId, error);
+    }
+  }, []);
+
+  // Refresh the connection stats of every peer - drives the quality badge on each tile
+  const pollConnectionStats = useCallback(async () => {
+    const entries = Array.from(peersRef.current.entries())
+      .filter(([, { peer }]) => peer.connectionState !== 'closed');
+    if (entries.length === 0) return;
+
+    // The figures only live in refs here - the tiles render them from one batched update
+    const updates = new Map<string, ConnectionStats>();
+    await Promise.all(entries.map(async ([peerId, peerConnection]) => {
+      try {
+        const { stats, snapshot } = await collectConnectionStats(peerConnection.peer, peerConnection.statsSnapshot);
+        peerConnection.stats = stats;
+        peerConnection.statsSnapshot = snapshot;
+        updates.set(peerId, stats);
+      } catch (error) {
+        console.warn('Could not read stats for', peerId, error);
+      }
+      await applyVideoEncoding(peerConnection, peerId);
+    }));
+    updateRemotePeerStats(updates);
+  }, [updateRemotePeerStats, applyVideoEncoding]);
+
+  const disconnect = useCallback(() => {
+    if (statsTimerRef.current) {
+      clearInterval(statsTimerRef.current);
+      statsTimerRef.current = null;
+    }
+    reportedTileSizesRef.current.clear();
+    remoteTileSizesRef.current.clear();
+    requestedVideoPausesRef.current.clear();
+    remoteVideoPausesRef.current.clear();
+
+    // Stop an active screen share
+    if (screenStreamRef.current) {
+      screenStreamRef.current.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
+      screenStreamRef.current = null;
+      setScreenStream(null);
+    }
+
+    // Close all peer connections
+    peersRef.current.forEach((peerConnection) => {
+      clearTimeout(peerConnection.iceRestartTimer);
+      peerConnection.peer.close();
+    });
+    peersRef.current.clear();
+    setPeers(new Map());
+
+    // Disconnect socket
+    if (socketRef.current) {
+      socketRef.current.emit('leave-room');
+      socketRef.current.disconnect();
+      socketRef.current = null;
+    }
+    selfIdRef.current = null;
+    reconnectTokenRef.current = null;
+    restartSessionRef.current = false;
+    setSelfId(null);
+    setHostId(null);
+    setWaitingList([]);
+    setIsWaitingForHost(false);
+    setMeetingExit(null);
+    setNotice(null);
+    setChatMessages([]);
+    setUnreadChatCount(0);
+    setRaisedHands([]);
+    setReactions(new Map());
+  }, []);
+
+  // The server took us out of the room (denied, removed, meeting ended) - drop every peer and the socket
+  const leaveWithExit = useCallback((exit: MeetingExit) => {
+    Array.from(peersRef.current.keys()).forEach(removePeer);
+    disconnect();
+    setMeetingExit(exit);
+  }, [removePeer, disconnect]);
+
+  // Mirror what the server told us about a participant and make sure we have a connection to them
+  const applyParticipantInfo = useCallback((user: ParticipantInfo) => {
+    updateRemotePeerScreenSharing(user.id, user.isScreenSharing);
+    updateRemotePeerMediaState(user.id, user.isAudioEnabled, user.isVideoEnabled);
+    updateRemotePeerRecording(user.id, user.isRecording);
+    const pc = getOrCreatePeerConnection(user.id);
+    pc.displayName = user.name || 'Participant';
+  }, [updateRemotePeerScreenSharing, updateRemotePeerMediaState, updateRemotePeerRecording, getOrCreatePeerConnection]);
+
   const initializeSocket = useCallback(() => {
     // Prevent multiple socket initializations
     if (socketRef.current) {
@@ -199,86 +577,252 @@ const useSockets = ({ roomId, userName }: UseSocketsProps) => {
       return;
     }
 
-    // In production (deployed), connect to same origin as the app
-    // In development, use VITE_SERVER_URL or localhost:3000
-    let serverUrl;
-    if (import.meta.env.VITE_SERVER_URL) {
-      serverUrl = import.meta.env.VITE_SERVER_URL;
-    } else if (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1') {
-      // Development mode
-      serverUrl = `${window.location.protocol}//${window.location.hostname}:3000`;
-    } else {
-      // Production mode - connect to same origin
-      serverUrl = window.location.origin;
-    }
-
+    const serverUrl = getServerUrl();
     console.log('Connecting to Socket.IO server:', serverUrl);
-    const socket = io(serverUrl, {
+    const socket: SignalingSocket = io(serverUrl, {
+      // Checked by the server - a client from an older deploy is asked to reload
+      auth: { protocolVersion: PROTOCOL_VERSION },
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
       reconnectionAttempts: 5
     });
     socketRef.current = socket;
+    setConnectionStatus('connecting');
+    statsTimerRef.current = setInterval(pollConnectionStats, STATS_POLL_INTERVAL_MS);
 
-    socket.on('connect', () => {
+    socket.on('connect', async () => {
       console.log('Connected to server:', socket.id);
-      // Send both roomId and display name
-      socket.emit('join-room', { roomId, name: userName });
+
+      // Fetch ICE servers before joining so every peer connection gets them. On reconnects this
+      // also refreshes the short-lived TURN credentials of the peers we already have.
+      rtcConfigurationRef.current = await fetchIceConfiguration();
+      peersRef.current.forEach(({ peer }) => {
+        try {
+          peer.setConfiguration(rtcConfigurationRef.current);
+        } catch (error) {
+          console.warn('Could not update ICE servers on peer connection:', error);
+        }
+      });
+      // Left the meeting while fetching
+      if (socketRef.current !== socket) return;
+
+      // Send roomId and display name, plus the resume token after a reconnect so we keep our identity
+      socket.emit('join-room', {
+        roomId,
+        name: userName,
+        reconnectToken: reconnectTokenRef.current,
+        restart: restartSessionRef.current,
+        hostSecret: loadHostSecret(roomId)
+      });
     });
 
-    socket.on('connect_error', (error) => {
+    socket.on('connect_error', (error: Error & { data?: SignalingError }) => {
       console.error('Socket connection error:', error);
+      if (error.data?.code === 'protocol-version') {
+        leaveWithExit({ kind: 'outdated', reason: error.data.message });
+      }
+    });
+
+    // The server rejected one of our messages
+    socket.on('signaling-error', (error) => {
+      console.warn('Signaling error:', error.code, error.message, error.event || '');
+      switch (error.code) {
+        case 'unknown-participant':
+          // They left without us hearing about it - stop negotiating with a ghost
+          if (error.target && peersRef.current.has(error.target)) {
+            removePeer(error.target);
+          }
+          break;
+        case 'not-in-room':
+          // Messages queued while reconnecting can arrive before we rejoined - the session handler sends our
+          // state again and the resume restarts ICE
+          break;
+        default:
+          setNotice(error.message);
+      }
     });
 
     socket.on('disconnect', (reason) => {
       console.log('Socket disconnected:', reason);
+      // We closed the socket ourselves (leaving, or taken out of the room by the server)
+      if (reason === 'io client disconnect') return;
+      // The client does not reconnect by itself after a server-side disconnect
+      setConnectionStatus(reason === 'io server disconnect' ? 'lost' : 'reconnecting');
+    });
+
+    socket.io.on('reconnect_attempt', (attempt) => {
+      console.log('Reconnect attempt', attempt);
+      setConnectionStatus('reconnecting');
+    });
+
+    // All reconnectionAttempts are used up - the call is dead until the user rejoins
+    socket.io.on('reconnect_failed', () => {
+      console.warn('Reconnection failed');
+      setConnectionStatus('lost');
+    });
+
+    socket.on('session', ({ participantId, reconnectToken, resumed }) => {
+      console.log('Session', resumed ? 'resumed' : 'started', 'as', participantId);
+
+      // The server could not resume us (grace period expired) - everyone already dropped our old identity
+      if (!resumed && selfIdRef.current && selfIdRef.current !== participantId) {
+        Array.from(peersRef.current.keys()).forEach(removePeer);
+      }
+
+      selfIdRef.current = participantId;
+      reconnectTokenRef.current = reconnectToken;
+      restartSessionRef.current = false;
+      setSelfId(participantId);
+      setIsWaitingForHost(false);
+      setConnectionStatus('connected');
+
+      // A fresh session starts from the defaults. A resumed one missed whatever we sent while disconnected:
+      // socket.io flushes its buffer before join-room, so the server rejected it as not-in-room.
+      socket.emit('media-state', mediaStateRef.current);
+      if (resumed || isRecordingRef.current) {
+        socket.emit('recording', { isRecording: isRecordingRef.current });
+      }
+      if (resumed || isHandRaisedRef.current) {
+        socket.emit('raise-hand', { raised: isHandRaisedRef.current });
+      }
+
+      if (resumed) {
+        // The memo maps hold what we want the others to send us - repeat it in case it was dropped too
+        reportedTileSizesRef.current.forEach((size, peerId) => {
+          socket.emit('tile-size', { to: peerId, size });
+        });
+        peersRef.current.forEach((_, peerId) => {
+          const reason = requestedVideoPausesRef.current.get(peerId) ?? null;
+          socket.emit('video-pause', { to: peerId, paused: Boolean(reason), reason });
+        });
+
+        // Media may have survived the signaling outage, but anything not connected needs fresh ICE
+        peersRef.current.forEach((peerConnection, userId) => {
+          if (peerConnection.peer.connectionState !== 'connected') {
+            restartIce(peerConnection, userId);
+          }
+        });
+      }
+    });
+
+    socket.on('room-state', ({ hostId: newHostId, waitingRoom, locked }) => {
+      console.log('Room state - host:', newHostId, 'waiting room:', waitingRoom, 'locked:', locked);
+      setHostId(newHostId);
+      setWaitingRoomEnabled(waitingRoom);
+      setRoomLocked(locked);
+    });
+
+    // Replaces what we have - after a resume it also holds what we missed while disconnected
+    socket.on('chat-history', (messages) => {
+      setChatMessages(messages);
+    });
+
+    socket.on('chat-message', (message) => {
+      setChatMessages((messages) => [...messages, message]);
+      if (message.from !== selfIdRef.current) {
+        setUnreadChatCount((count) => count + 1);
+      }
     });
 
-    // Handle existing users (array of {id,name})
-    socket.on('existing-users', (users: Array<{id:string,name:string}>) => {
+    socket.on('raised-hands', (hands) => {
+      // The host may have lowered ours
+      isHandRaisedRef.current = hands.some(({ id }) => id === selfIdRef.current);
+      setRaisedHands(hands);
+    });
+
+    socket.on('reaction', ({ id, emoji }) => {
+      const key = ++reactionKeyRef.current;
+      setReactions((current) => new Map(current).set(id, { emoji, key }));
+      setTimeout(() => {
+        setReactions((current) => {
+          // A newer reaction from the same participant keeps its own timer
+          if (current.get(id)?.key !== key) return current;
+          const next = new Map(current);
+          next.delete(id);
+          return next;
+        });
+      }, REACTION_DURATION_MS);
+    });
+
+    // Only sent to the host
+    socket.on('waiting-list', (waiting) => {
+      console.log('Waiting list:', waiting);
+      setWaitingList(waiting);
+    });
+
+    socket.on('waiting-for-host', () => {
+      console.log('Waiting for the host to admit us');
+      setConnectionStatus('connected');
+      setIsWaitingForHost(true);
+    });
+
+    socket.on('join-denied', ({ reason }) => {
+      console.log('Join denied:', reason);
+      leaveWithExit({ kind: 'denied', reason });
+    });
+
+    socket.on('room-full', ({ reason, maxParticipants }) => {
+      console.log(`Room is full (max ${maxParticipants} participants)`);
+      leaveWithExit({ kind: 'full', reason });
+    });
+
+    socket.on('removed', ({ reason }) => {
+      console.log('Removed from the meeting:', reason);
+      leaveWithExit({ kind: 'removed', reason });
+    });
+
+    socket.on('meeting-ended', ({ reason }) => {
+      console.log('Meeting ended:', reason);
+      leaveWithExit({ kind: 'ended', reason });
+    });
+
+    socket.on('mute-requested', () => {
+      console.log('Host muted our microphone');
+      setAudioEnabled(false);
+      setNotice('The host muted your microphone.');
+    });
+
+    // Handle existing users
+    socket.on('existing-users', (users) => {
       console.log('Existing users in room (with names):', users);
+
+      // After a resume, drop peers that left while we were away
+      peersRef.current.forEach((_, userId) => {
+        if (!users.some(u => u.id === userId)) {
+          removePeer(userId);
+        }
+      });
+
       users.forEach(u => {
-        addRemotePeer(u.id, u.name || 'Participant');
-        createPeerConnection(u.id, true);
-        const pc = peersRef.current.get(u.id);
-        if (pc) {
-          pc.displayName = u.name || 'Participant';
-          peersRef.current.set(u.id, pc);
+        // Keep peers we already know (resumed session) so their streams stay intact
+        if (!peersRef.current.has(u.id)) {
+          addRemotePeer(u.id, u.name || 'Participant');
         }
+        applyParticipantInfo(u);
       });
       setPeers(new Map(peersRef.current));
     });
 
-    socket.on('user-connected', (payload: { id: string; name?: string }) => {
-      console.log('User connected payload:', payload);
-      const { id, name } = payload;
+    socket.on('user-connected', (user) => {
+      console.log('User connected payload:', user);
 
-      addRemotePeer(id, name || 'Participant');
-      createPeerConnection(id, false);
-      const pc = peersRef.current.get(id);
-      if (pc) {
-        pc.displayName = name || 'Participant';
-        peersRef.current.set(id, pc);
-        setPeers(new Map(peersRef.current));
-      }
+      addRemotePeer(user.id, user.name || 'Participant');
+      applyParticipantInfo(user);
+      setPeers(new Map(peersRef.current));
     });
 
-    socket.on('offer', async ({ offer, from }: { offer: RTCSessionDescriptionInit; from: string }) => {
+    socket.on('offer', async ({ offer, from }) => {
       console.log('Received offer from:', from);
       await handleOffer(offer, from);
     });
 
-    socket.on('answer', async ({ answer, from }: { answer: RTCSessionDescriptionInit; from: string }) => {
+    socket.on('answer', async ({ answer, from }) => {
       console.log('Received answer from:', from);
-      const peerConnection = peersRef.current.get(from);
-      if (peerConnection) {
-        await peerConnection.peer.setRemoteDescription(new RTCSessionDescription(answer));
-        await processPendingIceCandidates(peerConnection.peer, peerConnection, from);
-      }
+      await handleAnswer(answer, from);
     });
 
-    socket.on('ice-candidate', async ({ candidate, from }: { candidate: RTCIceCandidateInit; from: string }) => {
+    socket.on('ice-candidate', async ({ candidate, from }) => {
       console.log('Received ICE candidate from:', from);
       const peerConnection = peersRef.current.get(from);
       if (peerConnection) {
@@ -295,40 +839,205 @@ const useSockets = ({ roomId, userName }: UseSocketsProps) => {
             console.log('Added ICE candidate from:', from);
           }
         } catch (error) {
-          console.error('Error adding ICE candidate:', error);
+          // Candidates belonging to an offer we ignored are expected to fail
+          if (!peerConnection.ignoreOffer) {
+            console.error('Error adding ICE candidate:', error);
+          }
         }
       } else {
         console.warn('Received ICE candidate for unknown peer:', from);
       }
     });
 
-    socket.on('user-disconnected', (userId: string) => {
+    socket.on('screen-share', ({ id, isSharing }) => {
+      console.log('Screen share state for', id, ':', isSharing);
+      updateRemotePeerScreenSharing(id, isSharing);
+    });
+
+    socket.on('media-state', ({ id, audio, video }) => {
+      console.log('Media state for', id, '- audio:', audio, 'video:', video);
+      updateRemotePeerMediaState(id, audio, video);
+    });
+
+    socket.on('recording', ({ id, isRecording }) => {
+      console.log('Recording state for', id, ':', isRecording);
+      updateRemotePeerRecording(id, isRecording);
+    });
+
+    socket.on('tile-size', ({ from, size }) => {
+      remoteTileSizesRef.current.set(from, size);
+      const peerConnection = peersRef.current.get(from);
+      if (peerConnection) {
+        applyVideoEncoding(peerConnection, from);
+      }
+    });
+
+    socket.on('video-pause', ({ from, paused, reason }) => {
+      console.log('Video for', from, paused ? `paused (${reason})` : 'resumed');
+      if (paused && reason) {
+        remoteVideoPausesRef.current.set(from, reason);
+      } else {
+        remoteVideoPausesRef.current.delete(from);
+      }
+      const peerConnection = peersRef.current.get(from);
+      if (peerConnection) {
+        syncSender(peerConnection, 'videoSender', getOutgoingVideoTrack(from)).catch((error) => {
+          console.error('Error updating video sender for', from, error);
+        });
+      }
+    });
+
+    socket.on('user-disconnected', (userId) => {
       console.log('User disconnected:', userId);
       removePeer(userId);
     });
-  }, [roomId, userName, createPeerConnection, handleOffer, removePeer, addRemotePeer, processPendingIceCandidates]);
+  }, [roomId, userName, handleOffer, handleAnswer, removePeer, restartIce, addRemotePeer, applyParticipantInfo, updateRemotePeerScreenSharing, updateRemotePeerMediaState, updateRemotePeerRecording, setAudioEnabled, leaveWithExit, pollConnectionStats, applyVideoEncoding, syncSender, getOutgoingVideoTrack]);
 
-  const disconnect = useCallback(() => {
-    // Close all peer connections
-    peersRef.current.forEach((peerConnection) => {
-      peerConnection.peer.close();
+  // Let everyone know whether our mic and camera are on
+  const announceMediaState = useCallback((audio: boolean, video: boolean) => {
+    mediaStateRef.current = { audio, video };
+    socketRef.current?.emit('media-state', { audio, video });
+  }, []);
+
+  // Let everyone know we started or stopped recording the meeting
+  const announceRecording = useCallback((isRecording: boolean) => {
+    isRecordingRef.current = isRecording;
+    socketRef.current?.emit('recording', { isRecording });
+  }, []);
+
+  // Tell each peer how large we show their video - they scale their encoding to it
+  const reportTileSizes = useCallback((sizes: Map<string, TileSize>) => {
+    sizes.forEach((size, peerId) => {
+      if (reportedTileSizesRef.current.get(peerId) === size) return;
+      reportedTileSizesRef.current.set(peerId, size);
+      socketRef.current?.emit('tile-size', { to: peerId, size });
     });
-    peersRef.current.clear();
-    setPeers(new Map());
+  }, []);
 
-    // Disconnect socket
-    if (socketRef.current) {
-      socketRef.current.emit('leave-room', roomId);
-      socketRef.current.disconnect();
-      socketRef.current = null;
-    }
-  }, [roomId]);
+  // Ask peers to stop or resume sending us video - null resumes. Only changes are sent.
+  const requestVideoPauses = useCallback((pauses: Map<string, VideoPauseReason | null>) => {
+    pauses.forEach((reason, peerId) => {
+      if ((requestedVideoPausesRef.current.get(peerId) ?? null) === reason) return;
+      if (reason) {
+        requestedVideoPausesRef.current.set(peerId, reason);
+      } else {
+        requestedVideoPausesRef.current.delete(peerId);
+      }
+      socketRef.current?.emit('video-pause', { to: peerId, paused: Boolean(reason), reason });
+    });
+  }, []);
+
+  // Audio-only mode: stop sending our camera to everyone
+  const setCameraPaused = useCallback(async (paused: boolean) => {
+    if (isCameraPausedRef.current === paused) return;
+    isCameraPausedRef.current = paused;
+    await syncLocalTracksToAllPeers();
+  }, [syncLocalTracksToAllPeers]);
+
+  // Send a chat message to everyone, or privately to one participant
+  const sendChatMessage = useCallback((text: string, to: string | null = null) => {
+    socketRef.current?.emit('chat-message', { text, to });
+  }, []);
+
+  const markChatRead = useCallback(() => setUnreadChatCount(0), []);
+
+  const setHandRaised = useCallback((raised: boolean) => {
+    isHandRaisedRef.current = raised;
+    socketRef.current?.emit('raise-hand', { raised });
+  }, []);
+
+  const sendReaction = useCallback((emoji: string) => {
+    socketRef.current?.emit('reaction', { emoji });
+  }, []);
+
+  // Host actions - the server ignores them from anyone else
+  const admitParticipant = useCallback((id: string) => {
+    socketRef.current?.emit('admit-participant', { id });
+  }, []);
+
+  const denyParticipant = useCallback((id: string) => {
+    socketRef.current?.emit('deny-participant', { id });
+  }, []);
+
+  const setWaitingRoom = useCallback((enabled: boolean) => {
+    socketRef.current?.emit('set-waiting-room', { enabled });
+  }, []);
+
+  const requestMute = useCallback((id: string) => {
+    socketRef.current?.emit('request-mute', { id });
+  }, []);
+
+  const removeParticipant = useCallback((id: string) => {
+    socketRef.current?.emit('remove-participant', { id });
+  }, []);
+
+  const lowerHand = useCallback((id: string) => {
+    socketRef.current?.emit('lower-hand', { id });
+  }, []);
+
+  const lockRoom = useCallback((locked: boolean) => {
+    socketRef.current?.emit('set-room-locked', { locked });
+  }, []);
+
+  const endMeeting = useCallback(() => {
+    socketRef.current?.emit('end-meeting');
+  }, []);
+
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  // Start over with a fresh session after the connection was lost - local media is kept
+  const rejoin = useCallback(() => {
+    // Present our old token so the server takes over the stale session instead of leaving it behind
+    const reconnectToken = reconnectTokenRef.current;
+    Array.from(peersRef.current.keys()).forEach(removePeer);
+    disconnect();
+    reconnectTokenRef.current = reconnectToken;
+    restartSessionRef.current = true;
+    initializeSocket();
+  }, [removePeer, disconnect, initializeSocket]);
 
   return {
     peers,
+    screenStream,
+    connectionStatus,
+    selfId,
+    hostId,
+    isHost: Boolean(selfId) && selfId === hostId,
+    waitingRoomEnabled,
+    roomLocked,
+    waitingList,
+    isWaitingForHost,
+    meetingExit,
+    notice,
+    chatMessages,
+    unreadChatCount,
+    raisedHands,
+    isHandRaised: raisedHands.some(({ id }) => id === selfId),
+    reactions,
     initializeSocket,
     disconnect,
-    addLocalTracksToAllPeers
+    rejoin,
+    syncLocalTracksToAllPeers,
+    reportTileSizes,
+    requestVideoPauses,
+    setCameraPaused,
+    announceMediaState,
+    announceRecording,
+    sendChatMessage,
+    markChatRead,
+    setHandRaised,
+    sendReaction,
+    startScreenShare,
+    stopScreenShare,
+    admitParticipant,
+    denyParticipant,
+    setWaitingRoom,
+    requestMute,
+    removeParticipant,
+    lowerHand,
+    lockRoom,
+    endMeeting,
+    dismissNotice
   };
 };
 
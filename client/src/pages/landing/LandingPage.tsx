@@ -4,44 +4,73 @@ import cn from 'classnames';
 
 import Button from "../../components/button";
 import Input from "../../components/input";
+import { createRoom, fetchRoomInfo, parseRoomId, saveHostSecret } from '../../utils/rooms';
 
 import './LandingPage.scss';
 
 const LandingPage = () => {
   const [userName, setUserName] = useState('');
+  const [meetingId, setMeetingId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // A request to the server is in flight
+  const [isBusy, setIsBusy] = useState(false);
   const navigate = useNavigate();
 
-  const generateRoomId = () => {
-    // produce an 8-char lowercase alphanumeric id
-    return Math.random().toString(36).substring(2, 10).toLowerCase();
-  };
-
-  const handleCreateMeeting = () => {
+  const handleCreateMeeting = async () => {
     if (!userName.trim()) {
       alert('Please enter your display name');
       return;
     }
-    const roomId = generateRoomId();
 
-    // Store userName in sessionStorage
-    sessionStorage.setItem('userName', userName.trim());
+    setIsBusy(true);
+    setError(null);
+    try {
+      // The server hands out the id, so it can't clash with a meeting that is already running
+      const { roomId, hostSecret } = await createRoom();
+      saveHostSecret(roomId, hostSecret);
+
+      // Store userName in sessionStorage
+      sessionStorage.setItem('userName', userName.trim());
 
-    // Navigate to meeting page
-    navigate(`/meeting/${roomId}`);
+      // Navigate to the meeting's lobby
+      navigate(`/meeting/${roomId}/lobby`);
+    } catch (err) {
+      console.warn('Could not create a meeting:', err);
+      setError('Could not create a meeting. Please try again.');
+      setIsBusy(false);
+    }
   };
 
-  const handleJoinMeeting = () => {
+  const handleJoinMeeting = async () => {
     if (!userName.trim()) {
       alert('Please enter your display name');
       return;
     }
-    const roomId = prompt('Enter Room ID:');
-    if (roomId && roomId.trim()) {
+    const roomId = parseRoomId(meetingId);
+    if (!roomId) {
+      setError('Enter the meeting ID or link you were given');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      // A typo must not silently start a new, empty meeting
+      const info = await fetchRoomInfo(roomId);
+      if (!info.exists) {
+        setError(`There is no meeting with the ID "${roomId}"`);
+        setIsBusy(false);
+        return;
+      }
+
       // Store userName in sessionStorage
       sessionStorage.setItem('userName', userName.trim());
 
-      // Normalize to lowercase for consistency
-      navigate(`/meeting/${roomId.trim().toLowerCase()}`);
+      navigate(`/meeting/${info.roomId}/lobby`);
+    } catch (err) {
+      console.warn('Could not look up the meeting:', err);
+      setError('Could not reach the server. Please try again.');
+      setIsBusy(false);
     }
   };
 
@@ -61,13 +90,32 @@ const LandingPage = () => {
           className={cn("landing-page__button", "landing-page__create-button")}
           onClick={handleCreateMeeting}
           label="Create meeting"
+          disabled={isBusy}
+        />
+      </div>
+
+      <div className="landing-page__section">
+        <Input
+          id="meeting-id"
+          value={meetingId}
+          onChange={(e) => {
+            setMeetingId(e.target.value);
+            setError(null);
+          }}
+          placeholder="Meeting ID or link"
+          maxLength={200}
         />
         <Button
           className={cn("landing-page__button", "landing-page__join-button")}
           onClick={handleJoinMeeting}
           label="Join meeting"
+          disabled={isBusy}
         />
       </div>
+
+      {error && (
+        <div className="landing-page__error" role="alert">{error}</div>
+      )}
     </div>
   );
 }
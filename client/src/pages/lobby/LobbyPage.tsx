@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import cn from 'classnames';
+import {
+  BsCameraVideoFill,
+  BsCameraVideoOffFill,
+  BsMicFill,
+  BsMicMuteFill
+} from "react-icons/bs";
+
+import { useMediaContext } from '../../contexts/MediaContext';
+import { fetchRoomInfo } from '../../utils/rooms';
+import type { RoomInfo } from '../../utils/rooms';
+
+import Button from "../../components/button";
+import DeviceSettings from "../../components/deviceSettings";
+import IconButton from "../../components/iconButton";
+import Input from "../../components/input";
+import MicLevelMeter from "../../components/micLevelMeter";
+import VideoEffects from "../../components/videoEffects";
+
+import './LobbyPage.scss';
+
+// How often the room occupancy is refreshed while waiting in the lobby
+const OCCUPANCY_POLL_INTERVAL_MS = 5000;
+
+const LobbyPage = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+  const navigate = useNavigate();
+  const normalizedRoomId = roomId ? roomId.toLowerCase() : '';
+  const [userName, setUserName] = useState(sessionStorage.getItem('userName') || '');
+  const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+
+  const {
+    localStream,
+    isAudioEnabled,
+    isVideoEnabled,
+    availableDevices,
+    selectedAudioDeviceId,
+    selectedVideoDeviceId,
+    selectedOutputDeviceId,
+    setSelectedOutputDeviceId,
+    mediaError,
+    videoEffects,
+    videoEffectsError,
+    setVideoEffects,
+    getLocalAudioLevel,
+    initializeMedia,
+    switchInputDevice,
+    toggleAudio,
+    toggleVideo,
+    cleanup: cleanupMedia
+  } = useMediaContext();
+
+  const previewRef = useRef<HTMLVideoElement>(null);
+  // The preview stream is handed over to the meeting when joining, so it must survive unmount then
+  const joiningRef = useRef(false);
+
+  // Start the preview - the meeting page keeps using this stream after joining
+  useEffect(() => {
+    if (!roomId) {
+      navigate('/');
+      return;
+    }
+
+    initializeMedia().catch((err) => console.warn('initializeMedia failed:', err));
+
+    return () => {
+      if (!joiningRef.current) {
+        cleanupMedia();
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roomId]);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = localStream || null;
+    }
+  }, [localStream]);
+
+  // Show who is already in the room, before the socket ever joins it
+  useEffect(() => {
+    if (!normalizedRoomId) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const info = await fetchRoomInfo(normalizedRoomId);
+        if (!cancelled) setRoomInfo(info);
+      } catch (err) {
+        console.warn('Could not fetch room occupancy:', err);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, OCCUPANCY_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [normalizedRoomId]);
+
+  const handleJoin = () => {
+    if (!userName.trim()) {
+      alert('Please enter your display name');
+      return;
+    }
+    sessionStorage.setItem('userName', userName.trim());
+    joiningRef.current = true;
+    navigate(`/meeting/${normalizedRoomId}`, { state: { fromLobby: true } });
+  };
+
+  const handleBack = () => {
+    navigate('/');
+  };
+
+  // Shared links skip the landing page's check, so an unknown id is caught here
+  const isMissing = roomInfo?.exists === false;
+  const participantCount = roomInfo?.participantCount ?? 0;
+  // The server checks again on join - this just saves a pointless attempt
+  const isFull = Boolean(roomInfo && participantCount >= roomInfo.maxParticipants);
+
+  const occupancyText = roomInfo === null
+    ? 'Checking who is here...'
+    : isMissing
+      ? 'There is no meeting with this ID'
+      : isFull
+        ? 'This meeting is full'
+        : participantCount === 0
+          ? 'No one else is here yet'
+          : `${participantCount} ${participantCount === 1 ? 'person is' : 'people are'} in this meeting`;
+
+  return (
+    <div className="lobby-page">
+      <div className="lobby-page__preview">
+        <video
+          ref={previewRef}
+          autoPlay
+          playsInline
+          muted
+          className={cn("lobby-page__video", {
+            "lobby-page__video--hidden": !localStream || !isVideoEnabled
+          })}
+        />
+        {(!localStream || !isVideoEnabled) && (
+          <div className="lobby-page__video-placeholder">
+            {localStream ? 'Camera is off' : 'No camera'}
+          </div>
+        )}
+        <div className="lobby-page__toggles">
+          <IconButton
+            className={cn("lobby-page__toggle", {
+              "lobby-page__toggle--off": !isAudioEnabled,
+            })}
+            disabled={!localStream}
+            icon={isAudioEnabled ? <BsMicFill /> : <BsMicMuteFill />}
+            onClick={toggleAudio}
+          />
+          <IconButton
+            className={cn("lobby-page__toggle", {
+              "lobby-page__toggle--off": !isVideoEnabled,
+            })}
+            disabled={!localStream}
+            icon={isVideoEnabled ? <BsCameraVideoFill /> : <BsCameraVideoOffFill />}
+            onClick={toggleVideo}
+          />
+        </div>
+      </div>
+
+      <div className="lobby-page__section">
+        <h2 className="lobby-page__title">Ready to join?</h2>
+        <p className="lobby-page__room">Room <strong>{normalizedRoomId}</strong> · {occupancyText}</p>
+
+        <Input
+          id="lobby-user-name"
+          value={userName}
+          onChange={(e) => setUserName(e.target.value)}
+          placeholder="Enter your display name"
+        />
+
+        <MicLevelMeter getLevel={getLocalAudioLevel} isMuted={!isAudioEnabled} />
+
+        <DeviceSettings
+          devices={availableDevices}
+          audioDeviceId={selectedAudioDeviceId}
+          videoDeviceId={selectedVideoDeviceId}
+          outputDeviceId={selectedOutputDeviceId}
+          onAudioDeviceChange={(deviceId) => switchInputDevice('audioinput', deviceId)}
+          onVideoDeviceChange={(deviceId) => switchInputDevice('videoinput', deviceId)}
+          onOutputDeviceChange={setSelectedOutputDeviceId}
+        />
+
+        <VideoEffects settings={videoEffects} onChange={setVideoEffects} error={videoEffectsError} />
+
+        {mediaError && <p className="lobby-page__error">{mediaError}</p>}
+
+        <Button
+          className="lobby-page__join-button"
+          onClick={handleJoin}
+          disabled={!userName.trim() || isFull || isMissing}
+          label="Join meeting"
+        />
+        <Button
+          className="lobby-page__back-button"
+          onClick={handleBack}
+          label="Back"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default LobbyPage;
@@ -0,0 +1,3 @@
+import LobbyPage from "./LobbyPage.tsx";
+
+export default LobbyPage;
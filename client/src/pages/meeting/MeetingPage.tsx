@@ -1,20 +1,70 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useCallback, useState } from 'react';
+import cn from 'classnames';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 
 import { useMediaContext } from '../../contexts/MediaContext';
+import type { RemotePeer } from '../../contexts/MediaContext';
+import useActiveSpeaker from '../../hooks/useActiveSpeaker';
+import useRecorder from '../../hooks/useRecorder';
+import type { RecordingSource } from '../../hooks/useRecorder';
+import usePushToTalk from '../../hooks/usePushToTalk';
+import useShortcuts from '../../hooks/useShortcuts';
 import useSockets from '../../hooks/useSockets';
+import type { VideoPauseReason } from '../../hooks/useSockets';
+import type { TileSize } from '../../utils/videoEncoding';
 
+import AdmissionRequests from "../../components/admissionRequests";
+import ChatPanel from "../../components/chatPanel";
+import ParticipantsPanel from "../../components/participantsPanel";
+import type { ParticipantEntry } from "../../components/participantsPanel/ParticipantsPanel";
+import ConnectionStatus from "../../components/connectionStatus";
 import Controls from "../../components/controls";
+import LayoutSwitcher from "../../components/layoutSwitcher";
+import type { MeetingLayout } from "../../components/layoutSwitcher/LayoutSwitcher";
+import Pager from "../../components/pager";
 import RemoteVideo from "../../components/remoteVideo";
+import type { TileMenuItem } from "../../components/tileMenu/TileMenu";
 import LocalVideo from "../../components/localVideo";
+import PresentationTile from "../../components/presentationTile";
+import RaisedHands from "../../components/raisedHands";
+import RecordingIndicator from "../../components/recordingIndicator";
+import SettingsPanel from "../../components/settingsPanel";
+import type { BandwidthMode } from "../../components/settingsPanel/SettingsPanel";
+import ShortcutsOverlay from "../../components/shortcutsOverlay";
+import Toast from "../../components/toast";
+import WaitingScreen from "../../components/waitingScreen";
 
 import './MeetingPage.scss';
 import NoPeersPlaceholder from "../../components/noPeersPlaceholder";
 
+// With more peers than this in the grid, every tile is a thumbnail
+const LARGE_TILE_MAX_PEERS = 2;
+// 3x3 - beyond that the gallery pages
+const GALLERY_PAGE_SIZE = 9;
+const LAYOUTS: MeetingLayout[] = ['gallery', 'speaker', 'spotlight'];
+const BANDWIDTH_MODES: BandwidthMode[] = ['normal', 'speaker-only', 'audio-only'];
+
+// Whether we take a peer's video in the given bandwidth mode - a shared screen is worth it unless audio only
+const getVideoPauseReason = (
+  mode: BandwidthMode,
+  peerId: string,
+  activeSpeakerId: string | null,
+  presenterId: string | undefined
+): VideoPauseReason | null => {
+  if (mode === 'audio-only') return 'audio-only';
+  if (mode === 'speaker-only' && peerId !== activeSpeakerId && peerId !== presenterId) return 'speaker-only';
+  return null;
+};
+
+// Side panels share the same spot - only one is open at a time
+type MeetingPanel = 'settings' | 'chat' | 'participants';
 
 const MeetingPage = () => {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Only the lobby sets this - shared links and bookmarks go through the lobby first
+  const fromLobby = Boolean((location.state as { fromLobby?: boolean } | null)?.fromLobby);
   // Normalize roomId to lowercase for consistency (URLs may be uppercase)
   const normalizedRoomId = roomId ? roomId.toLowerCase() : '';
   const userName = sessionStorage.getItem('userName') || 'Guest';
@@ -22,28 +72,94 @@ const MeetingPage = () => {
   // Media context - provides all media-related state and actions
   const {
     localStream,
+    localStreamRef,
     isAudioEnabled,
     isVideoEnabled,
     isSpeaking,
     remotePeers,
+    availableDevices,
+    selectedAudioDeviceId,
+    selectedVideoDeviceId,
+    selectedOutputDeviceId,
+    setSelectedOutputDeviceId,
+    mediaError,
+    micSettings,
+    setMicSettings,
+    videoEffects,
+    videoEffectsError,
+    setVideoEffects,
     initializeMedia,
+    switchInputDevice,
+    calibrateVoiceDetection,
     toggleAudio,
+    setAudioEnabled,
     toggleVideo,
     cleanup: cleanupMedia
   } = useMediaContext();
 
   // Sockets hook - handles all WebRTC and socket.io logic
   const {
+    screenStream,
+    connectionStatus,
+    selfId,
+    hostId,
+    isHost,
+    waitingRoomEnabled,
+    roomLocked,
+    waitingList,
+    isWaitingForHost,
+    meetingExit,
+    notice,
+    chatMessages,
+    unreadChatCount,
+    raisedHands,
+    isHandRaised,
+    reactions,
     initializeSocket,
     disconnect,
-    addLocalTracksToAllPeers
+    rejoin,
+    syncLocalTracksToAllPeers,
+    reportTileSizes,
+    requestVideoPauses,
+    setCameraPaused,
+    announceMediaState,
+    announceRecording,
+    sendChatMessage,
+    markChatRead,
+    setHandRaised,
+    sendReaction,
+    startScreenShare,
+    stopScreenShare,
+    admitParticipant,
+    denyParticipant,
+    setWaitingRoom,
+    requestMute,
+    removeParticipant,
+    lowerHand,
+    lockRoom,
+    endMeeting,
+    dismissNotice
   } = useSockets({
     roomId: normalizedRoomId,
     userName
   });
 
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const tracksAddedRef = useRef(false);
+  const [openPanel, setOpenPanel] = useState<MeetingPanel | null>(null);
+  const [layout, setLayout] = useState<MeetingLayout>(() => {
+    const stored = sessionStorage.getItem('meetingLayout') as MeetingLayout | null;
+    return stored && LAYOUTS.includes(stored) ? stored : 'gallery';
+  });
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  const [bandwidthMode, setBandwidthMode] = useState<BandwidthMode>(() => {
+    const stored = sessionStorage.getItem('bandwidthMode') as BandwidthMode | null;
+    return stored && BANDWIDTH_MODES.includes(stored) ? stored : 'normal';
+  });
+  // Playback volume (0..1) per remote participant - 1 unless changed in the participants panel
+  const [peerVolumes, setPeerVolumes] = useState<Map<string, number>>(new Map());
+  const [galleryPage, setGalleryPage] = useState(0);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const activeSpeakerId = useActiveSpeaker(remotePeers);
 
   // Cleanup function - defined before useEffect to avoid reference issues
   const cleanup = useCallback(() => {
@@ -57,20 +173,150 @@ const MeetingPage = () => {
     navigate('/');
   }, [cleanup, navigate]);
 
-  // Attach the hook-provided localStream to the local preview element
+  const handleToggleScreenShare = useCallback(() => {
+    if (screenStream) {
+      stopScreenShare();
+    } else {
+      startScreenShare();
+    }
+  }, [screenStream, startScreenShare, stopScreenShare]);
+
+  // Recorded like the grid: every remote peer, then ourselves (our screen while sharing)
+  const getRecordingSources = useCallback((): RecordingSource[] => [
+    ...Array.from(remotePeers.values()).map((peer) => ({
+      id: peer.id,
+      label: peer.displayName || 'Participant',
+      videoStream: peer.isVideoEnabled === false ? null : peer.stream,
+      audioStream: peer.stream
+    })),
+    {
+      id: 'local',
+      label: userName,
+      videoStream: screenStream || localStream,
+      audioStream: localStream
+    }
+  ], [remotePeers, screenStream, localStream, userName]);
+
+  const { isRecording, startRecording, stopRecording } = useRecorder({
+    getSources: getRecordingSources,
+    fileNamePrefix: `meeting-${normalizedRoomId}`,
+    // Also when the recorder stops by itself, so nobody keeps seeing the indicator
+    onStopped: () => announceRecording(false)
+  });
+
+  const handleToggleRecording = useCallback(() => {
+    if (isRecording) {
+      stopRecording();
+    } else if (startRecording()) {
+      announceRecording(true);
+    }
+  }, [isRecording, startRecording, stopRecording, announceRecording]);
+
+  const recordingNames = [
+    ...(isRecording ? ['You'] : []),
+    ...Array.from(remotePeers.values())
+      .filter((peer) => peer.isRecording)
+      .map((peer) => peer.displayName || 'Participant')
+  ];
+
+  const togglePanel = useCallback((panel: MeetingPanel) => {
+    setOpenPanel((current) => current === panel ? null : panel);
+  }, []);
+
+  // Whatever arrives while the chat is open has been read
   useEffect(() => {
-    if (localVideoRef.current) {
-      localVideoRef.current.srcObject = localStream || null;
+    if (openPanel === 'chat' && unreadChatCount > 0) {
+      markChatRead();
     }
-  }, [localStream]);
+  }, [openPanel, unreadChatCount, markChatRead]);
+
+  const handleLayoutChange = useCallback((newLayout: MeetingLayout) => {
+    setLayout(newLayout);
+    sessionStorage.setItem('meetingLayout', newLayout);
+  }, []);
+
+  // Push to talk owns the mic - toggling it directly would only be undone by the next Space press
+  const hasMicrophone = Boolean(localStream?.getAudioTracks().length);
+  const isPushToTalkActive = micSettings.pushToTalk && hasMicrophone;
+
+  // Nothing to act on behind the waiting screen, and the overlay takes the keys while rebinding
+  const areShortcutsEnabled = !isShortcutsOpen && !isWaitingForHost && !meetingExit;
+  const {
+    bindings: shortcutBindings,
+    updateBindings: setShortcutBindings,
+    resetBindings: resetShortcutBindings
+  } = useShortcuts({
+    toggleMic: isPushToTalkActive ? undefined : toggleAudio,
+    toggleCamera: toggleVideo,
+    toggleChat: () => togglePanel('chat'),
+    toggleParticipants: () => togglePanel('participants'),
+    cycleLayout: () => handleLayoutChange(LAYOUTS[(LAYOUTS.indexOf(layout) + 1) % LAYOUTS.length]),
+    leave: () => {
+      if (window.confirm('Leave the meeting?')) handleLeave();
+    },
+    showShortcuts: () => setIsShortcutsOpen(true),
+  }, areShortcutsEnabled);
+
+  const handleBandwidthModeChange = useCallback((mode: BandwidthMode) => {
+    setBandwidthMode(mode);
+    sessionStorage.setItem('bandwidthMode', mode);
+  }, []);
+
+  // Audio only stops our camera for everyone
+  useEffect(() => {
+    setCameraPaused(bandwidthMode === 'audio-only');
+  }, [bandwidthMode, setCameraPaused]);
+
+  // Pinning someone puts them in the spotlight
+  const handlePin = useCallback((peerId: string) => {
+    setPinnedId(peerId);
+    handleLayoutChange('spotlight');
+  }, [handleLayoutChange]);
+
+  const handleVolumeChange = useCallback((peerId: string, volume: number) => {
+    setPeerVolumes((current) => new Map(current).set(peerId, volume));
+  }, []);
 
-  // When a local stream becomes available, add it to all existing peer connections
+  const handleRemoveParticipant = useCallback((participantId: string, displayName?: string) => {
+    if (window.confirm(`Remove ${displayName || 'this participant'} from the meeting?`)) {
+      removeParticipant(participantId);
+    }
+  }, [removeParticipant]);
+
+  const handleEndMeeting = useCallback(() => {
+    if (window.confirm('End the meeting for everyone?')) {
+      endMeeting();
+    }
+  }, [endMeeting]);
+
+  // Once we've been denied, removed or the meeting ended, release the camera and mic
   useEffect(() => {
-    if (localStream && !tracksAddedRef.current) {
-      console.log('Local stream available, adding tracks to all peers');
-      addLocalTracksToAllPeers();
-      tracksAddedRef.current = true;
+    if (meetingExit) {
+      cleanupMedia();
+    }
+  }, [meetingExit, cleanupMedia]);
+
+  // Attach the hook-provided localStream (or our screen while sharing) to the local preview element
+  useEffect(() => {
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = screenStream || localStream || null;
     }
+  }, [localStream, screenStream]);
+
+  // Tell the others whether we're muted or have the camera off - a shared screen counts as video
+  const isSendingAudio = isAudioEnabled && hasMicrophone;
+  const isSendingVideo = Boolean(screenStream)
+    || (isVideoEnabled && Boolean(localStream?.getVideoTracks().length) && bandwidthMode !== 'audio-only');
+  useEffect(() => {
+    announceMediaState(isSendingAudio, isSendingVideo);
+  }, [isSendingAudio, isSendingVideo, announceMediaState]);
+
+  usePushToTalk(isPushToTalkActive, isAudioEnabled, setAudioEnabled);
+
+  // Whenever the local stream changes (media came up, device switched or lost), update every peer's senders
+  useEffect(() => {
+    console.log('Local stream changed, syncing tracks to all peers');
+    syncLocalTracksToAllPeers();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [localStream]);
 
@@ -81,14 +327,22 @@ const MeetingPage = () => {
       return;
     }
 
+    // Pick a name, devices and mic/camera state in the lobby before joining
+    if (!fromLobby) {
+      navigate(`/meeting/${normalizedRoomId}/lobby`, { replace: true });
+      return;
+    }
+
     // If the provided roomId isn't already lowercase, navigate to the canonical lowercase URL
     if (roomId && roomId !== normalizedRoomId) {
-      navigate(`/meeting/${normalizedRoomId}`, { replace: true });
+      navigate(`/meeting/${normalizedRoomId}`, { replace: true, state: location.state });
       return;
     }
 
-    // Initialize media and socket
-    initializeMedia().catch((err) => console.warn('initializeMedia failed:', err));
+    // Initialize media (unless the lobby preview is still running) and socket
+    if (!localStreamRef.current) {
+      initializeMedia().catch((err) => console.warn('initializeMedia failed:', err));
+    }
     initializeSocket();
 
     return cleanup;
@@ -96,41 +350,282 @@ const MeetingPage = () => {
   }, [roomId, normalizedRoomId]);
 
 
+  // The first remote peer sharing a screen takes the stage in every layout.
+  // The lists are memoized so the effects below only run when the peers or the layout change.
+  const peerList = useMemo(() => Array.from(remotePeers.values()), [remotePeers]);
+  const presenter = peerList.find((peer) => peer.isScreenSharing);
+  const pinnedPeer = pinnedId ? remotePeers.get(pinnedId) : undefined;
+  const stagePeer = (presenter || layout === 'gallery')
+    ? undefined
+    : (layout === 'spotlight' && pinnedPeer) || (activeSpeakerId ? remotePeers.get(activeSpeakerId) : undefined);
+  const hasStage = Boolean(presenter || stagePeer);
+  const gridPeers = useMemo(
+    () => peerList.filter((peer) => peer !== presenter && peer !== stagePeer),
+    [peerList, presenter, stagePeer]
+  );
+
+  // The gallery pages through the grid; the filmstrip under the stage scrolls instead
+  const pageCount = hasStage ? 1 : Math.ceil(gridPeers.length / GALLERY_PAGE_SIZE);
+  const currentPage = Math.min(galleryPage, Math.max(pageCount - 1, 0));
+  const visiblePeers = useMemo(() => (hasStage
+    ? gridPeers
+    : gridPeers.slice(currentPage * GALLERY_PAGE_SIZE, (currentPage + 1) * GALLERY_PAGE_SIZE)
+  ), [hasStage, gridPeers, currentPage]);
+  const galleryColumns = Math.ceil(Math.sqrt(visiblePeers.length));
+
+  // Let every peer know whether we show them large, so they don't upload pixels we never display
+  useEffect(() => {
+    const sizes = new Map<string, TileSize>();
+    gridPeers.forEach((peer) => {
+      sizes.set(peer.id, !hasStage && visiblePeers.length <= LARGE_TILE_MAX_PEERS ? 'large' : 'thumbnail');
+    });
+    if (presenter) {
+      sizes.set(presenter.id, 'large');
+    }
+    if (stagePeer) {
+      sizes.set(stagePeer.id, 'large');
+    }
+    reportTileSizes(sizes);
+  }, [presenter, stagePeer, hasStage, gridPeers, visiblePeers, reportTileSizes]);
+
+  // Ask everyone whose video this bandwidth mode skips to stop sending it
+  const presenterId = presenter?.id;
+  const videoPauses = useMemo(() => new Map(peerList.map((peer) => [
+    peer.id,
+    getVideoPauseReason(bandwidthMode, peer.id, activeSpeakerId, presenterId)
+  ])), [peerList, bandwidthMode, activeSpeakerId, presenterId]);
+  const getPeerVideoPauseReason = (peerId: string) => videoPauses.get(peerId) ?? null;
+  useEffect(() => {
+    requestVideoPauses(videoPauses);
+  }, [videoPauses, requestVideoPauses]);
+
+  // 1-based place of everyone in the raised hands queue
+  const handPositions = new Map(raisedHands.map(({ id }, index) => [id, index + 1]));
+  const peerNames = new Map(peerList.map((peer) => [peer.id, peer.displayName || 'Participant']));
+
+  // Shared by the tile menus and the participants panel
+  const getPeerMenuItems = (peer: RemotePeer): TileMenuItem[] => [
+    pinnedId === peer.id
+      ? { label: 'Unpin', onClick: () => setPinnedId(null) }
+      : { label: 'Pin', onClick: () => handlePin(peer.id) },
+    ...(isHost ? [
+      ...(handPositions.has(peer.id) ? [{ label: 'Lower hand', onClick: () => lowerHand(peer.id) }] : []),
+      { label: 'Mute', onClick: () => requestMute(peer.id) },
+      { label: 'Remove from meeting', onClick: () => handleRemoveParticipant(peer.id, peer.displayName), danger: true },
+    ] : []),
+  ];
+
+  const participantEntries: ParticipantEntry[] = [
+    {
+      id: selfId || 'local',
+      name: userName,
+      isSelf: true,
+      isHost,
+      isSpeaking,
+      isAudioEnabled: isSendingAudio,
+      isVideoEnabled: isSendingVideo,
+      handPosition: selfId ? handPositions.get(selfId) : undefined,
+    },
+    ...peerList.map((peer) => ({
+      id: peer.id,
+      name: peer.displayName || 'Participant',
+      isSelf: false,
+      isHost: peer.id === hostId,
+      isSpeaking: Boolean(peer.isSpeaking),
+      // Without a stream they can't be sending anything
+      isAudioEnabled: Boolean(peer.stream) && peer.isAudioEnabled !== false,
+      isVideoEnabled: Boolean(peer.stream) && peer.isVideoEnabled !== false,
+      handPosition: handPositions.get(peer.id),
+      connectionState: peer.connectionState,
+      volume: peerVolumes.get(peer.id) ?? 1,
+      menuItems: getPeerMenuItems(peer),
+    })),
+  ];
+
+  const renderPeerTile = (peer: RemotePeer) => (
+    <RemoteVideo
+      stream={peer.stream}
+      videoPausedReason={getPeerVideoPauseReason(peer.id)}
+      displayName={peer.displayName}
+      sinkId={selectedOutputDeviceId}
+      isSpeaking={peer.isSpeaking}
+      isHost={peer.id === hostId}
+      isAudioEnabled={peer.isAudioEnabled}
+      isVideoEnabled={peer.isVideoEnabled}
+      stats={peer.stats}
+      handPosition={handPositions.get(peer.id)}
+      reaction={reactions.get(peer.id)}
+      connectionState={peer.connectionState}
+      volume={peerVolumes.get(peer.id) ?? 1}
+      menuItems={getPeerMenuItems(peer)}
+    />
+  );
+
   return (
-    <div className="meeting-page">
+    <div className={cn("meeting-page", `meeting-page--${layout}`, { "meeting-page--staged": hasStage })}>
+      {presenter ? (
+        <div className="meeting-page__stage">
+          <PresentationTile
+            stream={presenter.stream}
+            displayName={presenter.displayName}
+            sinkId={selectedOutputDeviceId}
+            volume={peerVolumes.get(presenter.id) ?? 1}
+            isPaused={getPeerVideoPauseReason(presenter.id) === 'audio-only'}
+          />
+        </div>
+      ) : stagePeer && (
+        <div className="meeting-page__stage">
+          {renderPeerTile(stagePeer)}
+        </div>
+      )}
+
       {remotePeers.size === 0 ? (
         <NoPeersPlaceholder
           roomId={roomId || ''}
           normalizedRoomId={normalizedRoomId}
         />
-      ) : (
-        <div className="meeting-page__grid">
-          {Array.from(remotePeers.values()).map((peer) => (
+      ) : visiblePeers.length > 0 && (
+        <div
+          className="meeting-page__grid"
+          style={hasStage ? undefined : { gridTemplateColumns: `repeat(${galleryColumns}, 1fr)` }}
+        >
+          {visiblePeers.map((peer) => (
             <div key={peer.id} className="meeting-page__grid-item">
-              <RemoteVideo
-                stream={peer.stream}
-                displayName={peer.displayName}
-                isSpeaking={peer.isSpeaking}
-              />
+              {renderPeerTile(peer)}
             </div>
           ))}
         </div>
       )}
 
+      {remotePeers.size > 0 && (
+        <LayoutSwitcher layout={layout} onLayoutChange={handleLayoutChange} />
+      )}
+
+      <div className="meeting-page__pager">
+        <Pager page={currentPage} pageCount={pageCount} onPageChange={setGalleryPage} />
+      </div>
+
       <LocalVideo
         localVideoRef={localVideoRef}
         userName={userName}
         isSpeaking={isSpeaking}
+        isScreenSharing={Boolean(screenStream)}
+        isHost={isHost}
+        handPosition={selfId ? handPositions.get(selfId) : undefined}
+        reaction={selfId ? reactions.get(selfId) : undefined}
+      />
+
+      <RaisedHands
+        hands={raisedHands}
+        names={peerNames}
+        selfId={selfId}
+        onLower={isHost ? lowerHand : undefined}
       />
 
       <Controls
         isAudioEnabled={isAudioEnabled}
         isVideoEnabled={isVideoEnabled}
+        isScreenSharing={Boolean(screenStream)}
+        isSettingsOpen={openPanel === 'settings'}
+        isRecording={isRecording}
+        isChatOpen={openPanel === 'chat'}
+        isParticipantsOpen={openPanel === 'participants'}
+        unreadChatCount={unreadChatCount}
+        isHandRaised={isHandRaised}
+        isPushToTalk={isPushToTalkActive}
         localStream={localStream}
         toggleAudio={toggleAudio}
         toggleVideo={toggleVideo}
+        toggleScreenShare={handleToggleScreenShare}
+        toggleSettings={() => togglePanel('settings')}
+        toggleRecording={handleToggleRecording}
+        toggleChat={() => togglePanel('chat')}
+        toggleParticipants={() => togglePanel('participants')}
+        toggleHand={() => setHandRaised(!isHandRaised)}
+        sendReaction={sendReaction}
         handleLeave={handleLeave}
       />
+
+      {openPanel === 'settings' && (
+        <SettingsPanel
+          devices={availableDevices}
+          audioDeviceId={selectedAudioDeviceId}
+          videoDeviceId={selectedVideoDeviceId}
+          outputDeviceId={selectedOutputDeviceId}
+          onAudioDeviceChange={(deviceId) => switchInputDevice('audioinput', deviceId)}
+          onVideoDeviceChange={(deviceId) => switchInputDevice('videoinput', deviceId)}
+          onOutputDeviceChange={setSelectedOutputDeviceId}
+          mediaError={mediaError}
+          micSettings={micSettings}
+          onMicSettingsChange={setMicSettings}
+          videoEffects={videoEffects}
+          videoEffectsError={videoEffectsError}
+          onVideoEffectsChange={setVideoEffects}
+          onCalibrateVoiceDetection={calibrateVoiceDetection}
+          isHost={isHost}
+          waitingRoomEnabled={waitingRoomEnabled}
+          onWaitingRoomChange={setWaitingRoom}
+          roomLocked={roomLocked}
+          onRoomLockedChange={lockRoom}
+          onEndMeeting={handleEndMeeting}
+          bandwidthMode={bandwidthMode}
+          onBandwidthModeChange={handleBandwidthModeChange}
+          onShowShortcuts={() => setIsShortcutsOpen(true)}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+
+      {openPanel === 'participants' && (
+        <ParticipantsPanel
+          participants={participantEntries}
+          onVolumeChange={handleVolumeChange}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+
+      {openPanel === 'chat' && (
+        <ChatPanel
+          messages={chatMessages}
+          participants={Array.from(peerNames, ([id, name]) => ({ id, name }))}
+          selfId={selfId}
+          onSend={sendChatMessage}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+
+      {isHost && (
+        <AdmissionRequests
+          waitingList={waitingList}
+          onAdmit={admitParticipant}
+          onDeny={denyParticipant}
+        />
+      )}
+
+      {isShortcutsOpen && (
+        <ShortcutsOverlay
+          bindings={shortcutBindings}
+          onChange={setShortcutBindings}
+          onReset={resetShortcutBindings}
+          onClose={() => setIsShortcutsOpen(false)}
+        />
+      )}
+
+      {(isWaitingForHost || meetingExit) && (
+        <WaitingScreen
+          exit={meetingExit}
+          onLeave={handleLeave}
+        />
+      )}
+
+      <RecordingIndicator names={recordingNames} />
+
+      <Toast message={notice} onDismiss={dismissNotice} />
+
+      <ConnectionStatus
+        status={connectionStatus}
+        onRejoin={rejoin}
+        onLeave={handleLeave}
+      />
     </div>
   );
 }
@@ -0,0 +1,24 @@
+// Browsers start an AudioContext created outside a user gesture suspended, and resume() only
+// succeeds once the user has interacted with the page. Keep trying on every click or key press
+// until the context runs. Returns a function that removes the listeners again.
+export const resumeOnUserGesture = (context: AudioContext) => {
+  const resume = () => {
+    if (context.state === 'suspended') {
+      context.resume().catch(() => {});
+    }
+  };
+  const removeGestureListeners = () => {
+    document.removeEventListener('pointerdown', resume);
+    document.removeEventListener('keydown', resume);
+    context.removeEventListener('statechange', handleStateChange);
+  };
+  const handleStateChange = () => {
+    if (context.state === 'running') removeGestureListeners();
+  };
+
+  resume();
+  document.addEventListener('pointerdown', resume);
+  document.addEventListener('keydown', resume);
+  context.addEventListener('statechange', handleStateChange);
+  return removeGestureListeners;
+};
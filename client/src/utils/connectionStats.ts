@@ -0,0 +1,139 @@
+export type ConnectionQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// What we show about one peer connection, derived from two consecutive getStats() reports
+export interface ConnectionStats {
+  quality: ConnectionQuality;
+  // kbit/s over the last polling interval
+  inboundBitrate: number;
+  outboundBitrate: number;
+  // Estimated uplink capacity to this peer, if the browser reports it
+  availableOutgoingBitrate?: number;
+  // Percent of inbound packets lost over the last polling interval
+  packetLoss: number;
+  jitter?: number;
+  roundTripTime?: number;
+  frameRate?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  localCandidateType?: CandidateType;
+  remoteCandidateType?: CandidateType;
+}
+
+// Whether two polls would show the same - figures are rounded, so a quiet connection often repeats
+export const isSameConnectionStats = (a: ConnectionStats | undefined, b: ConnectionStats) => {
+  if (!a) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof ConnectionStats>;
+  return Array.from(keys).every((key) => a[key] === b[key]);
+};
+
+// Cumulative counters from the previous report, needed to turn totals into rates
+export interface StatsSnapshot {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Thresholds roughly follow what conferencing apps treat as noticeable degradation
+const POOR_PACKET_LOSS = 10;
+const FAIR_PACKET_LOSS = 3;
+const POOR_RTT_MS = 500;
+const FAIR_RTT_MS = 250;
+const FAIR_JITTER_MS = 50;
+
+const rateKbps = (bytes: number, intervalMs: number) =>
+  intervalMs > 0 ? Math.max(0, Math.round((bytes * 8) / intervalMs)) : 0;
+
+const rateQuality = (stats: Omit<ConnectionStats, 'quality'>, hasMedia: boolean): ConnectionQuality => {
+  if (!hasMedia && stats.roundTripTime === undefined) return 'unknown';
+  const rtt = stats.roundTripTime ?? 0;
+  if (stats.packetLoss >= POOR_PACKET_LOSS || rtt >= POOR_RTT_MS) return 'poor';
+  if (stats.packetLoss >= FAIR_PACKET_LOSS || rtt >= FAIR_RTT_MS || (stats.jitter ?? 0) >= FAIR_JITTER_MS) return 'fair';
+  return 'good';
+};
+
+// Poll one peer connection - pass the snapshot returned last time to get per-interval rates
+export const collectConnectionStats = async (
+  peer: RTCPeerConnection,
+  previous?: StatsSnapshot
+): Promise<{ stats: ConnectionStats; snapshot: StatsSnapshot }> => {
+  const report = await peer.getStats();
+  const snapshot: StatsSnapshot = {
+    timestamp: performance.now(),
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0
+  };
+  let jitter: number | undefined;
+  let frameRate: number | undefined;
+  let frameWidth: number | undefined;
+  let frameHeight: number | undefined;
+  let selectedPair: RTCIceCandidatePairStats | undefined;
+
+  report.forEach((stat) => {
+    switch (stat.type) {
+      case 'inbound-rtp':
+        snapshot.bytesReceived += stat.bytesReceived ?? 0;
+        snapshot.packetsReceived += stat.packetsReceived ?? 0;
+        snapshot.packetsLost += stat.packetsLost ?? 0;
+        if (stat.jitter !== undefined) {
+          jitter = Math.max(jitter ?? 0, stat.jitter * 1000);
+        }
+        if (stat.kind === 'video') {
+          frameRate = stat.framesPerSecond;
+          frameWidth = stat.frameWidth;
+          frameHeight = stat.frameHeight;
+        }
+        break;
+      case 'outbound-rtp':
+        snapshot.bytesSent += stat.bytesSent ?? 0;
+        break;
+      case 'transport':
+        if (stat.selectedCandidatePairId) {
+          selectedPair = report.get(stat.selectedCandidatePairId);
+        }
+        break;
+    }
+  });
+
+  // Firefox has no transport stats - fall back to the nominated pair
+  if (!selectedPair) {
+    report.forEach((stat) => {
+      if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+        selectedPair = stat;
+      }
+    });
+  }
+
+  const intervalMs = previous ? snapshot.timestamp - previous.timestamp : 0;
+  const packetsReceived = previous ? snapshot.packetsReceived - previous.packetsReceived : 0;
+  const packetsLost = previous ? Math.max(0, snapshot.packetsLost - previous.packetsLost) : 0;
+  const packetsExpected = packetsReceived + packetsLost;
+
+  const stats: Omit<ConnectionStats, 'quality'> = {
+    inboundBitrate: previous ? rateKbps(snapshot.bytesReceived - previous.bytesReceived, intervalMs) : 0,
+    outboundBitrate: previous ? rateKbps(snapshot.bytesSent - previous.bytesSent, intervalMs) : 0,
+    availableOutgoingBitrate: selectedPair?.availableOutgoingBitrate !== undefined
+      ? Math.round(selectedPair.availableOutgoingBitrate / 1000)
+      : undefined,
+    packetLoss: packetsExpected > 0 ? Math.round((packetsLost / packetsExpected) * 1000) / 10 : 0,
+    jitter: jitter !== undefined ? Math.round(jitter) : undefined,
+    roundTripTime: selectedPair?.currentRoundTripTime !== undefined
+      ? Math.round(selectedPair.currentRoundTripTime * 1000)
+      : undefined,
+    frameRate,
+    frameWidth,
+    frameHeight,
+    localCandidateType: selectedPair ? report.get(selectedPair.localCandidateId)?.candidateType : undefined,
+    remoteCandidateType: selectedPair ? report.get(selectedPair.remoteCandidateId)?.candidateType : undefined
+  };
+
+  return {
+    stats: { ...stats, quality: rateQuality(stats, packetsReceived > 0) },
+    snapshot
+  };
+};
@@ -0,0 +1,52 @@
+import { getServerUrl } from './serverUrl';
+
+interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+  ttl?: number;
+}
+
+// Used when the server can't be reached - direct and STUN-assisted connections still work
+const FALLBACK_CONFIGURATION: RTCConfiguration = {
+  iceServers: [
+    { urls: 'stun:stun.l.google.com:19302' }
+  ]
+};
+
+// Refetch a bit before the TURN credentials actually expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+let cached: { configuration: RTCConfiguration; expiresAt: number } | null = null;
+
+// VITE_FORCE_RELAY=true sends all media through TURN, regardless of the server setting
+const forceRelay = import.meta.env.VITE_FORCE_RELAY === 'true';
+
+const applyRelayOverride = (configuration: RTCConfiguration): RTCConfiguration =>
+  forceRelay ? { ...configuration, iceTransportPolicy: 'relay' } : configuration;
+
+// Fetch the ICE servers (including short-lived TURN credentials) from the signaling server
+export const fetchIceConfiguration = async (): Promise<RTCConfiguration> => {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.configuration;
+  }
+
+  try {
+    const response = await fetch(`${getServerUrl()}/api/ice-servers`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data: IceServersResponse = await response.json();
+
+    const configuration = applyRelayOverride({
+      iceServers: data.iceServers,
+      iceTransportPolicy: data.iceTransportPolicy || 'all'
+    });
+    const ttlMs = (data.ttl || 0) * 1000;
+    cached = { configuration, expiresAt: Date.now() + Math.max(ttlMs - EXPIRY_MARGIN_MS, 0) };
+    console.log('Fetched ICE servers:', data.iceServers.map(server => server.urls));
+    return configuration;
+  } catch (error) {
+    console.warn('Could not fetch ICE servers, falling back to public STUN:', error);
+    return applyRelayOverride(FALLBACK_CONFIGURATION);
+  }
+};
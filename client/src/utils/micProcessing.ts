@@ -0,0 +1,191 @@
+// Microphone processing: the browser's own processing is picked through getUserMedia constraints, then
+// the track goes through a Web Audio chain (manual gain, noise gate) and the result is published
+// instead of it. The gate runs on the audio thread, so it keeps working in background tabs.
+
+import { resumeOnUserGesture } from './audioContext';
+
+export interface MicSettings {
+  // Browser processing, applied when the microphone is opened
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Multiplier applied before the gate - 1 leaves the level unchanged
+  gain: number;
+  noiseGate: boolean;
+  // dBFS the signal has to reach to open the gate
+  gateThreshold: number;
+  // Only transmit while a key is held
+  pushToTalk: boolean;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  gain: 1,
+  noiseGate: false,
+  gateThreshold: -50,
+  pushToTalk: false
+};
+
+const STORAGE_KEY = 'micSettings';
+
+export const loadMicSettings = (): MicSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_MIC_SETTINGS, ...JSON.parse(stored) } : DEFAULT_MIC_SETTINGS;
+  } catch {
+    return DEFAULT_MIC_SETTINGS;
+  }
+};
+
+export const saveMicSettings = (settings: MicSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save microphone settings:', error);
+  }
+};
+
+// Whether the track has to go through the Web Audio chain at all
+export const hasMicProcessing = (settings: MicSettings) => settings.gain !== 1 || settings.noiseGate;
+
+// Changing these means reopening the microphone
+export const hasSameMicConstraints = (a: MicSettings, b: MicSettings) =>
+  a.echoCancellation === b.echoCancellation
+  && a.noiseSuppression === b.noiseSuppression
+  && a.autoGainControl === b.autoGainControl;
+
+export const getAudioConstraints = (settings: MicSettings, deviceId?: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl
+});
+
+export interface MicPipeline {
+  // Publish this instead of the microphone track
+  track: MediaStreamTrack;
+  update: (settings: MicSettings) => void;
+  // Stops the output track - the microphone track stays with the caller
+  close: () => void;
+}
+
+const PROCESSOR_NAME = 'noise-gate';
+// The gate opens quickly so first syllables aren't cut, stays open through short pauses and fades out
+const GATE_ATTACK_S = 0.005;
+const GATE_HOLD_S = 0.25;
+const GATE_RELEASE_S = 0.15;
+
+// Runs on the audio thread: RMS of every render quantum decides whether the gate is open, the gain
+// follows per sample so opening and closing don't click
+const PROCESSOR_SOURCE = `
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.enabled = false;
+    this.threshold = 0;
+    this.gain = 1;
+    this.holdLeft = 0;
+    this.holdLength = Math.round(sampleRate * ${GATE_HOLD_S});
+    this.attack = 1 - Math.exp(-1 / (sampleRate * ${GATE_ATTACK_S}));
+    this.release = 1 - Math.exp(-1 / (sampleRate * ${GATE_RELEASE_S}));
+    this.port.onmessage = (event) => {
+      this.enabled = event.data.enabled;
+      this.threshold = event.data.threshold;
+    };
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || !input.length) return true;
+
+    const channel = input[0];
+    let sum = 0;
+    for (let i = 0; i < channel.length; i++) {
+      sum += channel[i] * channel[i];
+    }
+    if (!this.enabled || Math.sqrt(sum / channel.length) >= this.threshold) {
+      this.holdLeft = this.holdLength;
+    } else {
+      this.holdLeft = Math.max(0, this.holdLeft - channel.length);
+    }
+
+    const target = this.holdLeft > 0 ? 1 : 0;
+    const coefficient = target > this.gain ? this.attack : this.release;
+    let gain = this.gain;
+    for (let c = 0; c < output.length; c++) {
+      const source = input[c] || channel;
+      gain = this.gain;
+      for (let i = 0; i < output[c].length; i++) {
+        gain += (target - gain) * coefficient;
+        output[c][i] = source[i] * gain;
+      }
+    }
+    this.gain = gain;
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', NoiseGateProcessor);
+`;
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+export const createMicPipeline = (source: MediaStreamTrack, settings: MicSettings): MicPipeline => {
+  const context = new AudioContext();
+  const input = context.createMediaStreamSource(new MediaStream([source]));
+  const gain = context.createGain();
+  const destination = context.createMediaStreamDestination();
+  let gate: AudioWorkletNode | null = null;
+  let current = settings;
+  let closed = false;
+
+  const apply = () => {
+    gain.gain.setTargetAtTime(current.gain, context.currentTime, 0.02);
+    gate?.port.postMessage({ enabled: current.noiseGate, threshold: dbToLinear(current.gateThreshold) });
+  };
+
+  // Ungated until the worklet is loaded - and for good where AudioWorklet is unavailable
+  input.connect(gain);
+  gain.connect(destination);
+  apply();
+
+  if (context.audioWorklet) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    context.audioWorklet.addModule(url)
+      .then(() => {
+        if (closed) return;
+        gate = new AudioWorkletNode(context, PROCESSOR_NAME);
+        gain.disconnect();
+        gain.connect(gate);
+        gate.connect(destination);
+        apply();
+      })
+      .catch((error) => console.warn('AudioWorklet unavailable, the noise gate is off:', error))
+      .finally(() => URL.revokeObjectURL(url));
+  } else {
+    console.warn('AudioWorklet unavailable, the noise gate is off');
+  }
+
+  // A context created before the first click starts suspended and would send silence
+  const removeGestureListeners = resumeOnUserGesture(context);
+
+  const track = destination.stream.getAudioTracks()[0];
+
+  return {
+    track,
+    update: (newSettings) => {
+      current = newSettings;
+      apply();
+    },
+    close: () => {
+      closed = true;
+      removeGestureListeners();
+      track.stop();
+      input.disconnect();
+      context.close().catch(() => {});
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { getServerUrl } from './serverUrl';
+
+export interface RoomInfo {
+  roomId: string;
+  exists: boolean;
+  participantCount: number;
+  waitingRoom: boolean;
+  locked: boolean;
+  maxParticipants: number;
+  // ms since epoch, null when the room doesn't exist
+  createdAt: number | null;
+  // Set while the room is empty - everyone left and it will be removed soon
+  endedAt: number | null;
+}
+
+interface CreatedRoom {
+  roomId: string;
+  createdAt: number;
+  // Proves to the server that we created the room, which makes us its host
+  hostSecret: string;
+}
+
+// Look up a room on the signaling server without joining it
+export const fetchRoomInfo = async (roomId: string): Promise<RoomInfo> => {
+  const response = await fetch(`${getServerUrl()}/api/rooms/${encodeURIComponent(roomId)}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+// Have the server allocate a new, unused room id
+export const createRoom = async (): Promise<CreatedRoom> => {
+  const response = await fetch(`${getServerUrl()}/api/rooms`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+// Kept for the tab that created the room, so only its joins claim the host role
+const hostSecretKey = (roomId: string) => `hostSecret:${roomId}`;
+
+export const saveHostSecret = (roomId: string, hostSecret: string) => {
+  sessionStorage.setItem(hostSecretKey(roomId), hostSecret);
+};
+
+export const loadHostSecret = (roomId: string) => sessionStorage.getItem(hostSecretKey(roomId));
+
+// Accept a bare id as well as a pasted meeting link, in any case
+export const parseRoomId = (input: string) => {
+  const value = input.trim();
+  const fromLink = value.match(/\/meeting\/([^/?#]+)/);
+  return (fromLink ? fromLink[1] : value).toLowerCase();
+};
@@ -0,0 +1,79 @@
+// Person segmentation for the background effects: MediaPipe's selfie segmenter tells the user apart
+// from the room on every frame, on the device. The runtime ships with the app; it and the model are
+// only loaded once someone turns a background effect on.
+
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+
+import type { SubjectMask } from './videoEffects';
+
+// Google's hosted copy of the model - set VITE_SEGMENTATION_MODEL_URL to serve it yourself
+const DEFAULT_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite';
+
+// Frames are segmented at this width - the model works at 256x256 anyway, and the mask is smoothed
+// when it is scaled back up
+const MASK_WIDTH = 256;
+
+// One segmenter for the whole app, created on first use
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+// VIDEO mode wants increasing timestamps across every call to the segmenter
+let lastTimestamp = 0;
+
+export const loadSegmenter = () => {
+  if (!segmenterPromise) {
+    segmenterPromise = import('@mediapipe/tasks-vision')
+      .then(({ ImageSegmenter }) => ImageSegmenter.createFromOptions({ wasmLoaderPath, wasmBinaryPath }, {
+        baseOptions: {
+          modelAssetPath: import.meta.env.VITE_SEGMENTATION_MODEL_URL || DEFAULT_MODEL_URL,
+          delegate: 'CPU'
+        },
+        runningMode: 'VIDEO',
+        outputConfidenceMasks: true,
+        outputCategoryMask: false
+      }));
+    // Let a later attempt try again, e.g. once the network is back
+    segmenterPromise.catch(() => {
+      segmenterPromise = null;
+    });
+  }
+  return segmenterPromise;
+};
+
+// A mask that paints the person as the segmenter sees them in each frame
+export const createSegmentationMask = (segmenter: ImageSegmenter): SubjectMask => {
+  const input = document.createElement('canvas');
+  const inputContext = input.getContext('2d');
+  const mask = document.createElement('canvas');
+  const maskContext = mask.getContext('2d');
+  if (!inputContext || !maskContext) {
+    throw new Error('Canvas 2D is not available');
+  }
+  let imageData: ImageData | null = null;
+
+  return (context, source, width, height) => {
+    const maskHeight = Math.max(1, Math.round((MASK_WIDTH * height) / width));
+    if (input.width !== MASK_WIDTH || input.height !== maskHeight) {
+      input.width = mask.width = MASK_WIDTH;
+      input.height = mask.height = maskHeight;
+      imageData = maskContext.createImageData(MASK_WIDTH, maskHeight);
+    }
+    inputContext.drawImage(source, 0, 0, MASK_WIDTH, maskHeight);
+
+    lastTimestamp = Math.max(performance.now(), lastTimestamp + 1);
+    // The masks are only valid inside the callback, which runs before segmentForVideo returns
+    segmenter.segmentForVideo(input, lastTimestamp, (result) => {
+      // The selfie model has a single category - how sure it is that each pixel is the person
+      const confidence = result.confidenceMasks?.[0]?.getAsFloat32Array();
+      if (!confidence || !imageData) return;
+      const pixels = imageData.data;
+      for (let i = 0; i < confidence.length; i++) {
+        pixels[i * 4 + 3] = confidence[i] * 255;
+      }
+      maskContext.putImageData(imageData, 0, 0);
+    });
+
+    context.drawImage(mask, 0, 0, width, height);
+  };
+};
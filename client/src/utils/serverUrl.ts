@@ -0,0 +1,13 @@
+// In production (deployed), the server is on the same origin as the app
+// In development, use VITE_SERVER_URL or localhost:3000
+export const getServerUrl = () => {
+  if (import.meta.env.VITE_SERVER_URL) {
+    return import.meta.env.VITE_SERVER_URL;
+  }
+  if (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1') {
+    // Development mode
+    return `${window.location.protocol}//${window.location.hostname}:3000`;
+  }
+  // Production mode - connect to same origin
+  return window.location.origin;
+};
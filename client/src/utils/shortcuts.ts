@@ -0,0 +1,80 @@
+// Keyboard shortcuts of the meeting page. A shortcut is written as its modifiers and key joined by
+// '+', e.g. 'M', 'Ctrl+Shift+L' or '?'. Printable keys are stored as the character they type, so
+// Shift is only spelled out for named keys ('Shift+F1') and next to other modifiers.
+
+export type ShortcutAction =
+  | 'toggleMic'
+  | 'toggleCamera'
+  | 'leave'
+  | 'toggleChat'
+  | 'toggleParticipants'
+  | 'cycleLayout'
+  | 'showShortcuts';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  defaultKey: string;
+}
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// In the order they are listed
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'toggleMic', label: 'Turn microphone on/off', defaultKey: 'M' },
+  { action: 'toggleCamera', label: 'Turn camera on/off', defaultKey: 'V' },
+  { action: 'toggleChat', label: 'Open/close chat', defaultKey: 'C' },
+  { action: 'toggleParticipants', label: 'Open/close participants', defaultKey: 'P' },
+  { action: 'cycleLayout', label: 'Next layout', defaultKey: 'L' },
+  { action: 'leave', label: 'Leave the meeting', defaultKey: 'Ctrl+Shift+L' },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', defaultKey: '?' },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map(({ action, defaultKey }) => [action, defaultKey])
+) as ShortcutBindings;
+
+// Keys that can't be bound: Space is push to talk, Escape closes dialogs and cancels rebinding
+export const RESERVED_SHORTCUTS = ['Space', 'Escape'];
+
+const STORAGE_KEY = 'shortcuts';
+
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SHORTCUT_BINDINGS, ...JSON.parse(stored) } : DEFAULT_SHORTCUT_BINDINGS;
+  } catch {
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+};
+
+export const saveShortcutBindings = (bindings: ShortcutBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Could not save keyboard shortcuts:', error);
+  }
+};
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta', 'CapsLock', 'AltGraph'];
+
+// The shortcut a key press stands for - null for a lone modifier
+export const getShortcut = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  const isPrintable = e.key.length === 1 && e.key !== ' ';
+  const key = e.key === ' ' ? 'Space' : isPrintable ? e.key.toUpperCase() : e.key;
+  const hasOtherModifiers = e.ctrlKey || e.altKey || e.metaKey;
+  return [
+    e.ctrlKey && 'Ctrl',
+    e.altKey && 'Alt',
+    e.shiftKey && (!isPrintable || hasOtherModifiers) && 'Shift',
+    e.metaKey && 'Meta',
+    key
+  ].filter(Boolean).join('+');
+};
+
+// Shortcuts must not fire while the user types into a field
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
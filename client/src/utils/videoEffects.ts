@@ -0,0 +1,379 @@
+// Local video effects: the camera track goes through a chain of canvas processors and the result is
+// published instead of it. Frames come from insertable streams (MediaStreamTrackProcessor) where the
+// browser has them - they aren't throttled in background tabs - and from a <video> + canvas otherwise.
+
+import { createSegmentationMask, loadSegmenter } from './segmentation';
+
+export type BackgroundEffect = 'none' | 'blur' | 'image';
+
+export interface VideoEffectSettings {
+  background: BackgroundEffect;
+  // Data URL of the replacement background
+  backgroundImage: string | null;
+  mirror: boolean;
+  // CSS filter amounts - 1 leaves the picture unchanged
+  brightness: number;
+  contrast: number;
+}
+
+export const DEFAULT_VIDEO_EFFECTS: VideoEffectSettings = {
+  background: 'none',
+  backgroundImage: null,
+  mirror: false,
+  brightness: 1,
+  contrast: 1
+};
+
+const STORAGE_KEY = 'videoEffects';
+
+// The chosen effects survive reloads and later meetings
+export const loadVideoEffects = (): VideoEffectSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_VIDEO_EFFECTS, ...JSON.parse(stored) } : DEFAULT_VIDEO_EFFECTS;
+  } catch {
+    return DEFAULT_VIDEO_EFFECTS;
+  }
+};
+
+export const saveVideoEffects = (settings: VideoEffectSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Usually a background image over the storage quota - the effects still apply until reload
+    console.warn('Could not save video effects:', error);
+  }
+};
+
+export const hasVideoEffects = (settings: VideoEffectSettings) =>
+  settings.background !== 'none' || settings.mirror || settings.brightness !== 1 || settings.contrast !== 1;
+
+type Context2D = CanvasRenderingContext2D;
+
+// One step of the chain: draw `source` (the previous step's result) onto `context`, transformed
+export interface VideoProcessor {
+  process: (context: Context2D, source: CanvasImageSource, width: number, height: number) => void;
+}
+
+// Paints the part of the frame that belongs to the person (opaque) and leaves the rest transparent
+export type SubjectMask = (context: Context2D, source: CanvasImageSource, width: number, height: number) => void;
+
+const createCanvas = () => document.createElement('canvas');
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D is not available');
+  }
+  return context;
+};
+
+const resize = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  // Assigning the size clears the canvas, even when it doesn't change
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+};
+
+// Scale the image to cover the whole frame, cropping what sticks out
+const drawCover = (context: Context2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Blurring a quarter-size copy is far cheaper and looks the same once scaled back up
+const BLUR_DOWNSCALE = 4;
+const BLUR_RADIUS = 12;
+
+// Keeps the person sharp over a blurred frame or a replacement image. Without a mask yet (the
+// segmenter is still loading) the whole frame is blurred, so the room never shows.
+export const createBackgroundProcessor = (
+  background: Exclude<BackgroundEffect, 'none'>,
+  backgroundImage: string | null,
+  mask: SubjectMask | null
+): VideoProcessor => {
+  const blurCanvas = createCanvas();
+  const blurContext = getContext(blurCanvas);
+  const subjectCanvas = createCanvas();
+  const subjectContext = getContext(subjectCanvas);
+
+  let image: HTMLImageElement | null = null;
+  if (background === 'image' && backgroundImage) {
+    image = new Image();
+    image.src = backgroundImage;
+  }
+
+  const drawBlurred = (context: Context2D, source: CanvasImageSource, width: number, height: number) => {
+    resize(blurCanvas, Math.ceil(width / BLUR_DOWNSCALE), Math.ceil(height / BLUR_DOWNSCALE));
+    blurContext.filter = `blur(${BLUR_RADIUS / BLUR_DOWNSCALE}px)`;
+    blurContext.drawImage(source, 0, 0, blurCanvas.width, blurCanvas.height);
+    blurContext.filter = 'none';
+    // Blurring pulls in transparent pixels at the border - overscan a little to hide the dark edge
+    const overscan = BLUR_RADIUS;
+    context.drawImage(blurCanvas, -overscan, -overscan, width + overscan * 2, height + overscan * 2);
+  };
+
+  return {
+    process: (context, source, width, height) => {
+      if (!mask) {
+        drawBlurred(context, source, width, height);
+        return;
+      }
+      // Until the image has loaded, blur the background instead
+      if (image?.complete && image.naturalWidth) {
+        drawCover(context, image, width, height);
+      } else {
+        drawBlurred(context, source, width, height);
+      }
+
+      resize(subjectCanvas, width, height);
+      subjectContext.globalCompositeOperation = 'source-over';
+      subjectContext.clearRect(0, 0, width, height);
+      subjectContext.drawImage(source, 0, 0, width, height);
+      subjectContext.globalCompositeOperation = 'destination-in';
+      mask(subjectContext, source, width, height);
+      context.drawImage(subjectCanvas, 0, 0);
+    }
+  };
+};
+
+export const createMirrorProcessor = (): VideoProcessor => ({
+  process: (context, source, width, height) => {
+    context.save();
+    context.translate(width, 0);
+    context.scale(-1, 1);
+    context.drawImage(source, 0, 0, width, height);
+    context.restore();
+  }
+});
+
+export const createAdjustProcessor = (brightness: number, contrast: number): VideoProcessor => ({
+  process: (context, source, width, height) => {
+    context.filter = `brightness(${brightness}) contrast(${contrast})`;
+    context.drawImage(source, 0, 0, width, height);
+    context.filter = 'none';
+  }
+});
+
+// The processors for a set of effects, in the order they run
+export const createVideoProcessors = (settings: VideoEffectSettings, mask: SubjectMask | null): VideoProcessor[] => {
+  const processors: VideoProcessor[] = [];
+  if (settings.background !== 'none') {
+    processors.push(createBackgroundProcessor(settings.background, settings.backgroundImage, mask));
+  }
+  if (settings.brightness !== 1 || settings.contrast !== 1) {
+    processors.push(createAdjustProcessor(settings.brightness, settings.contrast));
+  }
+  if (settings.mirror) {
+    processors.push(createMirrorProcessor());
+  }
+  return processors;
+};
+
+export interface VideoEffectsPipeline {
+  // Publish this instead of the camera track
+  track: MediaStreamTrack;
+  update: (settings: VideoEffectSettings) => void;
+  // Stops the output track - the camera track stays with the caller
+  close: () => void;
+}
+
+// Insertable streams - not part of the DOM typings yet
+interface TrackProcessor {
+  readable: ReadableStream<VideoFrame>;
+}
+interface TrackGenerator extends MediaStreamTrack {
+  writable: WritableStream<VideoFrame>;
+}
+interface InsertableStreamsGlobals {
+  MediaStreamTrackProcessor?: new (init: { track: MediaStreamTrack }) => TrackProcessor;
+  MediaStreamTrackGenerator?: new (init: { kind: 'video' }) => TrackGenerator;
+}
+
+const FALLBACK_FRAME_RATE = 30;
+// Average render time per frame above which effects can't keep up (under ~20 fps)
+const OVERLOAD_FRAME_MS = 50;
+// Weight of the newest frame in the average
+const RENDER_TIME_SMOOTHING = 0.1;
+// Frames to let pass before judging - the first ones include warming up
+const WARMUP_FRAMES = 30;
+
+export interface VideoEffectsCallbacks {
+  // Fires once, when rendering is too slow for the frame rate - the caller should fall back to the
+  // camera track
+  onOverload: () => void;
+  // The segmenter could not be loaded - the background effect is left out until the next update
+  onBackgroundError: (error: unknown) => void;
+}
+
+export const createVideoEffectsPipeline = (
+  source: MediaStreamTrack,
+  settings: VideoEffectSettings,
+  { onOverload, onBackgroundError }: VideoEffectsCallbacks
+): VideoEffectsPipeline => {
+  let currentSettings = settings;
+  let mask: SubjectMask | null = null;
+  let loadingMask = false;
+  let processors: VideoProcessor[] = [];
+  // Ping-pong between two canvases: each processor reads one and draws into the other
+  const canvases = [createCanvas(), createCanvas()];
+  const contexts = canvases.map(getContext);
+  const output = createCanvas();
+  const outputContext = getContext(output);
+
+  let closed = false;
+  let frameCount = 0;
+  let averageRenderMs = 0;
+  let overloaded = false;
+
+  const applySettings = (newSettings: VideoEffectSettings) => {
+    currentSettings = newSettings;
+    processors = createVideoProcessors(newSettings, mask);
+    // New processors start cold
+    frameCount = 0;
+    if (newSettings.background === 'none' || mask || loadingMask) return;
+
+    loadingMask = true;
+    loadSegmenter()
+      .then((segmenter) => {
+        mask = createSegmentationMask(segmenter);
+      })
+      .catch((error) => {
+        if (closed || currentSettings.background === 'none') return;
+        console.warn('Could not load the background segmenter:', error);
+        processors = createVideoProcessors({ ...currentSettings, background: 'none' }, null);
+        onBackgroundError(error);
+      })
+      .finally(() => {
+        loadingMask = false;
+        if (!closed && mask) applySettings(currentSettings);
+      });
+  };
+  applySettings(settings);
+
+  const render = (frame: CanvasImageSource, width: number, height: number) => {
+    const start = performance.now();
+    canvases.forEach((canvas) => resize(canvas, width, height));
+    resize(output, width, height);
+
+    contexts[0].clearRect(0, 0, width, height);
+    contexts[0].drawImage(frame, 0, 0, width, height);
+    let current = 0;
+    processors.forEach((processor) => {
+      const next = 1 - current;
+      contexts[next].clearRect(0, 0, width, height);
+      processor.process(contexts[next], canvases[current], width, height);
+      current = next;
+    });
+    outputContext.drawImage(canvases[current], 0, 0);
+
+    frameCount += 1;
+    const elapsed = performance.now() - start;
+    averageRenderMs = frameCount === 1 ? elapsed : averageRenderMs + (elapsed - averageRenderMs) * RENDER_TIME_SMOOTHING;
+    if (!overloaded && frameCount > WARMUP_FRAMES && averageRenderMs > OVERLOAD_FRAME_MS) {
+      overloaded = true;
+      console.warn(`Video effects take ${averageRenderMs.toFixed(1)} ms per frame - falling back to the camera`);
+      onOverload();
+    }
+  };
+
+  let track: MediaStreamTrack;
+  let stopFrames: () => void;
+  const { MediaStreamTrackProcessor, MediaStreamTrackGenerator } = globalThis as unknown as InsertableStreamsGlobals;
+
+  if (MediaStreamTrackProcessor && MediaStreamTrackGenerator) {
+    const reader = new MediaStreamTrackProcessor({ track: source });
+    const generator = new MediaStreamTrackGenerator({ kind: 'video' });
+    const transformer = new TransformStream<VideoFrame, VideoFrame>({
+      transform: (frame, controller) => {
+        try {
+          // Nothing to draw while the camera is turned off - the generator just goes quiet
+          if (!source.enabled) return;
+          render(frame, frame.displayWidth, frame.displayHeight);
+          controller.enqueue(new VideoFrame(output, { timestamp: frame.timestamp }));
+        } finally {
+          frame.close();
+        }
+      }
+    });
+    const abort = new AbortController();
+    reader.readable
+      .pipeThrough(transformer, { signal: abort.signal })
+      .pipeTo(generator.writable, { signal: abort.signal })
+      .catch((error) => {
+        if (!closed) console.warn('Video effects pipeline stopped:', error);
+      });
+    track = generator;
+    stopFrames = () => abort.abort();
+  } else {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream([source]);
+    video.play().catch((error) => console.warn('Could not play the camera for video effects:', error));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let callbackId: number | undefined;
+    const scheduleFrame = () => {
+      if (closed) return;
+      if ('requestVideoFrameCallback' in video) {
+        callbackId = video.requestVideoFrameCallback(drawFrame);
+      } else {
+        timer = setTimeout(drawFrame, 1000 / FALLBACK_FRAME_RATE);
+      }
+    };
+    const drawFrame = () => {
+      if (video.videoWidth && source.enabled) {
+        render(video, video.videoWidth, video.videoHeight);
+      }
+      scheduleFrame();
+    };
+    scheduleFrame();
+
+    track = output.captureStream(FALLBACK_FRAME_RATE).getVideoTracks()[0];
+    stopFrames = () => {
+      clearTimeout(timer);
+      if (callbackId !== undefined) {
+        video.cancelVideoFrameCallback(callbackId);
+      }
+      video.pause();
+      video.srcObject = null;
+    };
+  }
+
+  return {
+    track,
+    update: applySettings,
+    close: () => {
+      closed = true;
+      stopFrames();
+      track.stop();
+    }
+  };
+};
+
+// Replacement images are stored with the settings - keep them small
+const BACKGROUND_IMAGE_MAX_SIZE = 1280;
+
+// Read an image file the user picked and shrink it into a JPEG data URL
+export const prepareBackgroundImage = (file: File) => new Promise<string>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, BACKGROUND_IMAGE_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = createCanvas();
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    getContext(canvas).drawImage(image, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Not an image the browser can read'));
+  };
+  image.src = url;
+});
@@ -0,0 +1,65 @@
+import type { TileSize } from '../../../shared/protocol.mjs';
+
+// How large a receiver shows our video
+export type { TileSize };
+
+export interface VideoEncodingLimits {
+  // bit/s
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+interface EncodingInputs {
+  // Everyone we upload a copy of our video to
+  peerCount: number;
+  tileSize: TileSize;
+  isScreenSharing: boolean;
+  // Uplink estimate for this peer connection in kbit/s, from getStats()
+  availableOutgoingBitrate?: number;
+}
+
+// Full mesh: every peer costs one more upload, so the per-peer budget shrinks as the call grows
+const TIERS: { maxPeers: number; limits: VideoEncodingLimits }[] = [
+  { maxPeers: 1, limits: { maxBitrate: 2_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 } },
+  { maxPeers: 3, limits: { maxBitrate: 1_200_000, scaleResolutionDownBy: 1, maxFramerate: 30 } },
+  { maxPeers: 5, limits: { maxBitrate: 700_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 } },
+  { maxPeers: Infinity, limits: { maxBitrate: 400_000, scaleResolutionDownBy: 2, maxFramerate: 15 } },
+];
+
+const THUMBNAIL_LIMITS: VideoEncodingLimits = { maxBitrate: 300_000, scaleResolutionDownBy: 2, maxFramerate: 15 };
+
+// Leave headroom for audio and the estimate's own error
+const BANDWIDTH_HEADROOM = 0.85;
+const MIN_BITRATE = 100_000;
+// Round so small fluctuations of the bandwidth estimate don't renegotiate the encoder every poll
+const BITRATE_STEP = 50_000;
+
+export const getVideoEncodingLimits = ({
+  peerCount,
+  tileSize,
+  isScreenSharing,
+  availableOutgoingBitrate
+}: EncodingInputs): VideoEncodingLimits => {
+  const tier = TIERS.find(({ maxPeers }) => peerCount <= maxPeers) || TIERS[TIERS.length - 1];
+  let { maxBitrate, scaleResolutionDownBy, maxFramerate } = tier.limits;
+
+  if (tileSize === 'thumbnail') {
+    maxBitrate = Math.min(maxBitrate, THUMBNAIL_LIMITS.maxBitrate);
+    scaleResolutionDownBy = Math.max(scaleResolutionDownBy, THUMBNAIL_LIMITS.scaleResolutionDownBy);
+    maxFramerate = Math.min(maxFramerate, THUMBNAIL_LIMITS.maxFramerate);
+  }
+
+  // Shared screens are mostly text - keep every pixel and give up frame rate instead
+  if (isScreenSharing) {
+    scaleResolutionDownBy = 1;
+    maxFramerate = Math.min(maxFramerate, 15);
+  }
+
+  if (availableOutgoingBitrate !== undefined) {
+    maxBitrate = Math.min(maxBitrate, availableOutgoingBitrate * 1000 * BANDWIDTH_HEADROOM);
+  }
+  maxBitrate = Math.max(MIN_BITRATE, Math.round(maxBitrate / BITRATE_STEP) * BITRATE_STEP);
+
+  return { maxBitrate, scaleResolutionDownBy, maxFramerate };
+};
@@ -0,0 +1,273 @@
+// Shared voice activity detection: one AudioContext for every stream, levels computed on the audio
+// thread at a fixed rate. The audio thread is not throttled like requestAnimationFrame, so detection
+// keeps running in background tabs.
+
+import { resumeOnUserGesture } from './audioContext';
+
+export interface VoiceActivityThresholds {
+  // Level (0..1) that starts speech, and the lower level speech has to fall under to end
+  speakingLevel: number;
+  silenceLevel: number;
+  // How long the level must stay under silenceLevel before speech ends - bridges pauses between words
+  hangoverMs: number;
+}
+
+export interface VoiceActivityEngine {
+  // Start (or switch) metering the audio of a stream - replaces whatever was registered under the id
+  addStream: (id: string, stream: MediaStream) => void;
+  removeStream: (id: string) => void;
+  // Smoothed level (0..1) for meters - cheap enough to poll every frame
+  getLevel: (id: string) => number;
+  isSpeaking: (id: string) => boolean;
+  // Thresholds of every stream that hasn't been calibrated
+  setThresholds: (thresholds: Partial<VoiceActivityThresholds>) => void;
+  // Measure the noise floor of a stream for a moment and put its own thresholds above it - the
+  // other streams keep theirs, a noisy room here says nothing about how loud remote peers are
+  calibrate: (id: string, durationMs?: number) => Promise<VoiceActivityThresholds>;
+  close: () => void;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_THRESHOLDS: VoiceActivityThresholds = {
+  speakingLevel: 0.35,
+  silenceLevel: 0.25,
+  hangoverMs: 400
+};
+
+// Levels are reported this often, whatever the frame rate
+const LEVEL_INTERVAL_MS = 50;
+// Levels are dBFS mapped onto 0..1 - anything quieter than this is 0
+const LEVEL_FLOOR_DB = -60;
+// Weight of the newest value in the smoothed level
+const LEVEL_SMOOTHING = 0.5;
+const DEFAULT_CALIBRATION_MS = 2000;
+// How far above the measured noise floor speech has to be
+const CALIBRATION_MARGIN = 0.15;
+
+const PROCESSOR_NAME = 'voice-activity-level';
+
+// Runs on the audio thread: RMS of every render quantum, averaged and posted every LEVEL_INTERVAL_MS
+const PROCESSOR_SOURCE = `
+class VoiceActivityLevelProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.sum = 0;
+    this.count = 0;
+    this.framesPerReport = Math.round(sampleRate * ${LEVEL_INTERVAL_MS} / 1000);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.sum += channel[i] * channel[i];
+      }
+      this.count += channel.length;
+    } else {
+      this.count += 128;
+    }
+    if (this.count >= this.framesPerReport) {
+      this.port.postMessage(Math.sqrt(this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', VoiceActivityLevelProcessor);
+`;
+
+interface MeteredStream {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  meter: AudioWorkletNode | AnalyserNode;
+  pollTimer?: ReturnType<typeof setInterval>;
+  level: number;
+  speaking: boolean;
+  silentSince: number | null;
+  // Set while calibrate() is sampling this stream
+  onLevel?: (level: number) => void;
+}
+
+const rmsToLevel = (rms: number) => {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB));
+};
+
+// onSpeakingChange only fires when a stream flips between speech and silence
+export const createVoiceActivityEngine = (
+  onSpeakingChange: (id: string, speaking: boolean) => void
+): VoiceActivityEngine => {
+  const context = new AudioContext();
+  // Meters have to reach the destination to be rendered - through a muted gain so nothing is heard
+  const sink = context.createGain();
+  sink.gain.value = 0;
+  sink.connect(context.destination);
+
+  // Created before the first click - e.g. in the lobby of a shared link - the context starts
+  // suspended, and the meters and speaking detection would stay silent until it resumes
+  const removeGestureListeners = resumeOnUserGesture(context);
+
+  const streams = new Map<string, MeteredStream>();
+  let thresholds = { ...DEFAULT_VOICE_ACTIVITY_THRESHOLDS };
+  // Calibrated streams, by id - kept when the stream is removed or switches tracks, e.g. to another mic
+  const calibratedThresholds = new Map<string, VoiceActivityThresholds>();
+  const getThresholds = (id: string) => calibratedThresholds.get(id) ?? thresholds;
+  let closed = false;
+
+  // Fall back to polling an analyser where AudioWorklet is unavailable
+  const workletReady: Promise<boolean> = context.audioWorklet
+    ? (() => {
+      const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      return context.audioWorklet.addModule(url)
+        .then(() => true)
+        .catch((error) => {
+          console.warn('AudioWorklet unavailable, falling back to an analyser for voice detection:', error);
+          return false;
+        })
+        .finally(() => URL.revokeObjectURL(url));
+    })()
+    : Promise.resolve(false);
+
+  const handleLevel = (id: string, entry: MeteredStream, rms: number) => {
+    if (streams.get(id) !== entry) return;
+    const { speakingLevel, silenceLevel, hangoverMs } = getThresholds(id);
+    const level = rmsToLevel(rms);
+    entry.level = entry.level * (1 - LEVEL_SMOOTHING) + level * LEVEL_SMOOTHING;
+    entry.onLevel?.(entry.level);
+
+    const now = performance.now();
+    if (!entry.speaking) {
+      if (entry.level >= speakingLevel) {
+        entry.speaking = true;
+        entry.silentSince = null;
+        onSpeakingChange(id, true);
+      }
+      return;
+    }
+
+    if (entry.level >= silenceLevel) {
+      entry.silentSince = null;
+    } else if (entry.silentSince === null) {
+      entry.silentSince = now;
+    } else if (now - entry.silentSince >= hangoverMs) {
+      entry.speaking = false;
+      entry.silentSince = null;
+      onSpeakingChange(id, false);
+    }
+  };
+
+  const disconnectEntry = (entry: MeteredStream) => {
+    clearInterval(entry.pollTimer);
+    entry.source.disconnect();
+    entry.meter.disconnect();
+    if (entry.meter instanceof AudioWorkletNode) {
+      entry.meter.port.onmessage = null;
+    }
+  };
+
+  const removeStream = (id: string) => {
+    const entry = streams.get(id);
+    if (!entry) return;
+    disconnectEntry(entry);
+    streams.delete(id);
+    if (entry.speaking) {
+      onSpeakingChange(id, false);
+    }
+  };
+
+  const addStream = (id: string, stream: MediaStream) => {
+    const track = stream.getAudioTracks()[0];
+    if (!track) {
+      removeStream(id);
+      return;
+    }
+    // Same track as before - keep the running meter and its state
+    if (streams.get(id)?.trackId === track.id) return;
+    removeStream(id);
+
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const entry: MeteredStream = {
+      trackId: track.id,
+      source,
+      // Placeholder until we know whether the worklet loaded
+      meter: context.createAnalyser(),
+      level: 0,
+      speaking: false,
+      silentSince: null
+    };
+    streams.set(id, entry);
+
+    workletReady.then((useWorklet) => {
+      if (closed || streams.get(id) !== entry) return;
+
+      if (useWorklet) {
+        const node = new AudioWorkletNode(context, PROCESSOR_NAME);
+        node.port.onmessage = (event: MessageEvent<number>) => handleLevel(id, entry, event.data);
+        entry.meter = node;
+      } else {
+        const analyser = entry.meter as AnalyserNode;
+        analyser.fftSize = 2048;
+        const samples = new Float32Array(analyser.fftSize);
+        entry.pollTimer = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          for (let i = 0; i < samples.length; i++) {
+            sum += samples[i] * samples[i];
+          }
+          handleLevel(id, entry, Math.sqrt(sum / samples.length));
+        }, LEVEL_INTERVAL_MS);
+      }
+
+      source.connect(entry.meter);
+      entry.meter.connect(sink);
+    });
+
+  };
+
+  const calibrate = (id: string, durationMs = DEFAULT_CALIBRATION_MS) => new Promise<VoiceActivityThresholds>((resolve) => {
+    const entry = streams.get(id);
+    if (!entry) {
+      resolve(getThresholds(id));
+      return;
+    }
+
+    // The noise floor is the typical level, not the loudest moment - take the median
+    const samples: number[] = [];
+    entry.onLevel = (level) => samples.push(level);
+    setTimeout(() => {
+      entry.onLevel = undefined;
+      if (samples.length > 0) {
+        samples.sort((a, b) => a - b);
+        const noiseFloor = samples[Math.floor(samples.length / 2)];
+        calibratedThresholds.set(id, {
+          ...getThresholds(id),
+          speakingLevel: Math.min(0.9, Math.max(DEFAULT_VOICE_ACTIVITY_THRESHOLDS.speakingLevel, noiseFloor + CALIBRATION_MARGIN)),
+          silenceLevel: Math.min(0.8, Math.max(DEFAULT_VOICE_ACTIVITY_THRESHOLDS.silenceLevel, noiseFloor + CALIBRATION_MARGIN / 2))
+        });
+        console.log('Voice detection calibrated for', id, '- noise floor', noiseFloor.toFixed(2), 'thresholds', getThresholds(id));
+      }
+      resolve(getThresholds(id));
+    }, durationMs);
+  });
+
+  return {
+    addStream,
+    removeStream,
+    getLevel: (id) => streams.get(id)?.level ?? 0,
+    isSpeaking: (id) => streams.get(id)?.speaking ?? false,
+    setThresholds: (update) => {
+      thresholds = { ...thresholds, ...update };
+    },
+    calibrate,
+    close: () => {
+      closed = true;
+      removeGestureListeners();
+      streams.forEach(disconnectEntry);
+      streams.clear();
+      calibratedThresholds.clear();
+      context.close().catch(() => {});
+    }
+  };
+};
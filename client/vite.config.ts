@@ -21,5 +21,9 @@ export default defineConfig({
     host: '0.0.0.0', // Expose to local network
     port: 5173,
     strictPort: true,
+    fs: {
+      // The signaling protocol module lives in /shared, next to the client and server
+      allow: ['..'],
+    },
   },
 })
@@ -1,5 +1,6 @@
 require('dotenv').config();
 
+const crypto = require('crypto');
 const express = require('express');
 const path = require('path');
 const mime = require('mime-types');
@@ -12,6 +13,8 @@ const corsOrigin = process.env.NODE_ENV === 'production'
   : true; // Allow all origins in development
 
 const io = require('socket.io')(http, {
+  // Hard cap on a single packet - the protocol's own per-message limit is checked on top of this
+  maxHttpBufferSize: 256 * 1024,
   cors: {
     origin: corsOrigin,
     methods: ["GET", "POST"],
@@ -19,6 +22,469 @@ const io = require('socket.io')(http, {
   }
 });
 
+// The signaling protocol is an ES module shared with the client - loaded before we start listening
+let protocol;
+const protocolReady = import('../shared/protocol.mjs').then((module) => {
+  protocol = module;
+});
+
+// How long a participant whose socket dropped is kept around for a session resume
+const SESSION_RESUME_GRACE_MS = 30000;
+// Cap on signaling messages buffered for a participant while it is reconnecting
+const MAX_PENDING_MESSAGES = 200;
+// Per-socket token bucket: ICE trickle after a restart comes in bursts, anything beyond is abuse
+const RATE_LIMIT_BURST = 200;
+const RATE_LIMIT_PER_SECOND = 50;
+// Tell a flooding client about it at most this often
+const RATE_LIMIT_ERROR_INTERVAL_MS = 1000;
+// A room created through the API that nobody joins within this time is dropped again
+const UNUSED_ROOM_TTL_MS = 10 * 60 * 1000;
+// Full mesh: every participant uploads a stream to everyone else, so rooms have to stay small
+const MAX_PARTICIPANTS = Number(process.env.MAX_PARTICIPANTS) || 8;
+// An empty room (and its link) stays around this long, so people can still come back
+const EMPTY_ROOM_GRACE_MS = (Number(process.env.EMPTY_ROOM_GRACE_SECONDS) || 300) * 1000;
+// Chat messages kept per room for people who join later - the oldest are dropped first
+const CHAT_HISTORY_LIMIT = 200;
+
+// rooms: Map<roomId, room>
+// room: { participants: Map<participantId, participant>, hostId, hostSecret, waitingRoom, locked, waiting: Map<socketId, { name }>,
+//         chatHistory: ChatMessage[], createdAt, endedAt, cleanupTimer }
+// endedAt is set while the room is empty and waiting for its cleanupTimer to remove it.
+// participant: { name, isAudioEnabled, isVideoEnabled, isScreenSharing, isRecording, handRaisedAt, socketId, reconnectToken, resumeTimer, pendingMessages }
+// The participant id is the socket id of the first connection and survives reconnects.
+// A socket is in at most one room at a time: socket.data.roomId once admitted, socket.data.waitingRoomId while knocking.
+// The host is whoever created the room (they present its hostSecret when joining); the role moves on to the
+// longest-present participant when they leave. Until the creator arrives a room has no host.
+const rooms = new Map();
+
+const addRoom = (roomId) => {
+  rooms.set(roomId, {
+    participants: new Map(),
+    hostId: null,
+    // Handed to whoever called POST /api/rooms - presenting it on join makes them the host
+    hostSecret: crypto.randomUUID(),
+    waitingRoom: false,
+    locked: false,
+    waiting: new Map(),
+    chatHistory: [],
+    createdAt: Date.now(),
+    endedAt: null,
+    cleanupTimer: undefined
+  });
+};
+
+const cancelRoomCleanup = (room) => {
+  clearTimeout(room.cleanupTimer);
+  room.cleanupTimer = undefined;
+  room.endedAt = null;
+};
+
+// Remove the room after a delay unless someone (re)joins it in the meantime
+const scheduleRoomCleanup = (roomId, delay) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  clearTimeout(room.cleanupTimer);
+  room.cleanupTimer = setTimeout(() => {
+    if (rooms.get(roomId) !== room || room.participants.size || room.waiting.size) return;
+    rooms.delete(roomId);
+    console.log(`Room ${roomId} removed after ${Math.round((Date.now() - room.createdAt) / 60000)} min`);
+  }, delay);
+  room.cleanupTimer.unref();
+};
+
+// Close a room right away, e.g. when the host ends the meeting
+const deleteRoom = (roomId) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  clearTimeout(room.cleanupTimer);
+  rooms.delete(roomId);
+  console.log(`Room ${roomId} closed after ${Math.round((Date.now() - room.createdAt) / 60000)} min`);
+};
+
+const isRoomFull = (room) => room.participants.size >= MAX_PARTICIPANTS;
+
+// Room ids look like "hjk-wmpt-cxr": easy to read out and type, no look-alike characters
+const ROOM_ID_ALPHABET = 'abcdefghjkmnpqrstuvwxyz';
+const ROOM_ID_GROUPS = [3, 4, 3];
+
+const generateRoomId = () => ROOM_ID_GROUPS
+  .map((length) => Array.from({ length }, () => ROOM_ID_ALPHABET[crypto.randomInt(ROOM_ID_ALPHABET.length)]).join(''))
+  .join('-');
+
+// Allocate a fresh room - 23^10 ids make a collision unlikely, but never hand out one in use
+const createRoom = () => {
+  let roomId = generateRoomId();
+  while (rooms.has(roomId)) {
+    roomId = generateRoomId();
+  }
+  addRoom(roomId);
+  scheduleRoomCleanup(roomId, UNUSED_ROOM_TTL_MS);
+  return roomId;
+};
+
+// Whether a join presents the secret the room was created with
+const isRoomCreator = (room, hostSecret) => typeof hostSecret === 'string'
+  && hostSecret.length === room.hostSecret.length
+  && crypto.timingSafeEqual(Buffer.from(hostSecret), Buffer.from(room.hostSecret));
+
+// The room and participant entry behind a socket, if it has joined a room
+const getSocketParticipant = (socket) => {
+  const { roomId, participantId } = socket.data;
+  const room = roomId && rooms.get(roomId);
+  const participant = room && room.participants.get(participantId);
+  return participant ? { roomId, room, participantId, participant } : null;
+};
+
+// Structured error back to the sender of a rejected message: { code, message, event?, target? }
+const sendSignalingError = (socket, code, message, details = {}) => {
+  socket.emit('signaling-error', { code, message, ...details });
+};
+
+// Same as getSocketParticipant, but tells the sender when it isn't in a room
+const requireParticipant = (socket, event) => {
+  const current = getSocketParticipant(socket);
+  if (!current) {
+    sendSignalingError(socket, 'not-in-room', 'Join the meeting first.', { event });
+  }
+  return current;
+};
+
+// Same as getSocketParticipant, but only for the room's host - guards every moderation event
+const requireHost = (socket, event) => {
+  const current = getSocketParticipant(socket);
+  if (!current || current.room.hostId !== current.participantId) {
+    console.warn(`Rejected host-only action from ${socket.id}`);
+    sendSignalingError(socket, 'not-host', 'Only the host can do that.', { event });
+    return null;
+  }
+  return current;
+};
+
+// Returns a function that says whether the next message is still within the socket's budget
+const createRateLimiter = () => {
+  let tokens = RATE_LIMIT_BURST;
+  let lastRefill = Date.now();
+  return () => {
+    const now = Date.now();
+    tokens = Math.min(RATE_LIMIT_BURST, tokens + ((now - lastRefill) / 1000) * RATE_LIMIT_PER_SECOND);
+    lastRefill = now;
+    if (tokens < 1) return false;
+    tokens -= 1;
+    return true;
+  };
+};
+
+// Public messages plus the direct messages a participant sent or received
+const getChatHistory = (room, participantId) =>
+  room.chatHistory.filter(({ from, to }) => !to || to === participantId || from === participantId);
+
+// Raised hands in the order they went up: [{ id, raisedAt }]
+const getRaisedHands = (room) => Array.from(room.participants.entries())
+  .filter(([, participant]) => participant.handRaisedAt !== null)
+  .map(([id, participant]) => ({ id, raisedAt: participant.handRaisedAt }))
+  .sort((a, b) => a.raisedAt - b.raisedAt);
+
+const emitRaisedHands = (roomId) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  io.to(roomId).emit('raised-hands', getRaisedHands(room));
+};
+
+const getRoomState = (room) => ({ hostId: room.hostId, waitingRoom: room.waitingRoom, locked: room.locked });
+
+const emitRoomState = (roomId) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  io.to(roomId).emit('room-state', getRoomState(room));
+};
+
+// The host always receives the full list of people knocking
+const emitWaitingList = (room) => {
+  const host = room.participants.get(room.hostId);
+  if (!host?.socketId) return;
+  const waiting = Array.from(room.waiting.entries()).map(([id, { name }]) => ({ id, name }));
+  io.to(host.socketId).emit('waiting-list', waiting);
+};
+
+// Deliver a signaling message to a participant, buffering it while its socket is gone
+const sendToParticipant = (roomId, participantId, event, payload) => {
+  const participant = rooms.get(roomId)?.participants.get(participantId);
+  if (!participant) return false;
+
+  if (participant.socketId) {
+    io.to(participant.socketId).emit(event, payload);
+  } else if (participant.pendingMessages.length < MAX_PENDING_MESSAGES) {
+    participant.pendingMessages.push({ event, payload });
+  }
+  return true;
+};
+
+// Forward a peer-to-peer message - only ever between two participants of the same room
+const relayToParticipant = (socket, event, to, payload) => {
+  const current = requireParticipant(socket, event);
+  if (!current) return;
+  const delivered = to !== current.participantId
+    && sendToParticipant(current.roomId, to, event, { ...payload, from: current.participantId });
+  if (!delivered) {
+    sendSignalingError(socket, 'unknown-participant', 'That participant is not in this meeting.', { event, target: to });
+  }
+};
+
+// Send everyone still knocking away, so their sockets can join somewhere else
+const turnAwayWaiting = (room, reason) => {
+  room.waiting.forEach((_, socketId) => {
+    const waitingSocket = io.sockets.sockets.get(socketId);
+    if (waitingSocket) {
+      waitingSocket.data.waitingRoomId = undefined;
+      waitingSocket.emit('join-denied', { reason });
+    }
+  });
+  room.waiting.clear();
+};
+
+const removeParticipant = (roomId, participantId) => {
+  const room = rooms.get(roomId);
+  const participant = room?.participants.get(participantId);
+  if (!participant) return;
+
+  clearTimeout(participant.resumeTimer);
+  room.participants.delete(participantId);
+  io.to(roomId).emit('user-disconnected', participantId);
+  if (participant.handRaisedAt !== null) {
+    emitRaisedHands(roomId);
+  }
+
+  if (room.hostId !== participantId) return;
+
+  // Hand the host role to the longest-present participant (Map keeps insertion order)
+  const [nextHostId] = room.participants.keys();
+  room.hostId = nextHostId || null;
+  if (room.hostId) {
+    console.log(`Host of room ${roomId} transferred to ${room.hostId}`);
+    emitRoomState(roomId);
+    emitWaitingList(room);
+  } else {
+    // Nobody left to admit the people knocking
+    turnAwayWaiting(room, 'The meeting has ended.');
+  }
+
+  // The last one out ends the meeting - the room itself lingers for a while
+  if (!room.participants.size) {
+    room.endedAt = Date.now();
+    scheduleRoomCleanup(roomId, EMPTY_ROOM_GRACE_MS);
+    console.log(`Room ${roomId} is empty`);
+  }
+};
+
+// Take a participant's socket out of the room channel, e.g. after being removed by the host
+const detachSocket = (socketId, roomId) => {
+  const participantSocket = socketId && io.sockets.sockets.get(socketId);
+  if (!participantSocket) return;
+  participantSocket.leave(roomId);
+  participantSocket.data.roomId = undefined;
+  participantSocket.data.participantId = undefined;
+};
+
+// What other clients learn about a participant when they (re)join:
+// { id, name, isAudioEnabled, isVideoEnabled, isScreenSharing, isRecording }
+const describeParticipant = (id, participant) => ({
+  id,
+  name: participant.name,
+  isAudioEnabled: participant.isAudioEnabled,
+  isVideoEnabled: participant.isVideoEnabled,
+  isScreenSharing: participant.isScreenSharing,
+  isRecording: participant.isRecording
+});
+
+// Turned away because the mesh is at capacity
+const rejectRoomFull = (socket, roomId) => {
+  socket.emit('room-full', {
+    reason: `This meeting is full - at most ${MAX_PARTICIPANTS} people can join.`,
+    maxParticipants: MAX_PARTICIPANTS
+  });
+  console.log(`User ${socket.id} was turned away from full room ${roomId}`);
+};
+
+// Put a socket into the room as a brand-new participant - the creator takes the host role if it is free
+const admitToRoom = (socket, roomId, name, isCreator = false) => {
+  const room = rooms.get(roomId);
+  // Checked again here - the room may have filled up while someone was waiting to be admitted
+  if (isRoomFull(room)) {
+    rejectRoomFull(socket, roomId);
+    return;
+  }
+  cancelRoomCleanup(room);
+  const participantId = socket.id;
+  const participant = {
+    name: name || 'Guest',
+    // Until the client reports otherwise
+    isAudioEnabled: true,
+    isVideoEnabled: true,
+    isScreenSharing: false,
+    isRecording: false,
+    handRaisedAt: null,
+    socketId: socket.id,
+    reconnectToken: crypto.randomUUID(),
+    resumeTimer: undefined,
+    pendingMessages: []
+  };
+
+  // Only the creator hosts - knowing the room id is not enough
+  const becomesHost = isCreator && !room.hostId;
+  if (becomesHost) {
+    room.hostId = participantId;
+  }
+
+  socket.join(roomId);
+  socket.data.roomId = roomId;
+  socket.data.participantId = participantId;
+
+  // Prepare existing users list before adding the new user
+  const existingUsers = Array.from(room.participants.entries()).map(([id, other]) => describeParticipant(id, other));
+
+  room.participants.set(participantId, participant);
+
+  // Tell the client its identity and the token it needs to resume this session later
+  socket.emit('session', { participantId, reconnectToken: participant.reconnectToken, resumed: false });
+  if (becomesHost) {
+    // Others may have been waiting for the creator - everyone learns who hosts now
+    emitRoomState(roomId);
+    emitWaitingList(room);
+  } else {
+    socket.emit('room-state', getRoomState(room));
+  }
+
+  // Send list of existing users to the new joiner
+  socket.emit('existing-users', existingUsers);
+  socket.emit('chat-history', getChatHistory(room, participantId));
+  socket.emit('raised-hands', getRaisedHands(room));
+
+  // Notify others in room about the new user (send { id, name })
+  socket.to(roomId).emit('user-connected', describeParticipant(participantId, participant));
+
+  console.log(`User ${participantId} (${participant.name}) joined room ${roomId}. Existing users:`, existingUsers);
+};
+
+// Re-attach a reconnecting socket to its previous participant entry. With restart the client starts
+// over without its peer connections, so the others drop theirs and connect again as if it had just joined.
+const resumeSession = (socket, roomId, participantId, participant, restart = false) => {
+  const room = rooms.get(roomId);
+  clearTimeout(participant.resumeTimer);
+  participant.resumeTimer = undefined;
+
+  // The old socket may not have timed out yet - detach it so its disconnect is ignored
+  const previousSocketId = participant.socketId;
+  participant.socketId = socket.id;
+  if (previousSocketId && previousSocketId !== socket.id) {
+    io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+  }
+
+  socket.join(roomId);
+  socket.data.roomId = roomId;
+  socket.data.participantId = participantId;
+
+  const existingUsers = Array.from(room.participants.entries())
+    .filter(([id]) => id !== participantId)
+    .map(([id, other]) => describeParticipant(id, other));
+
+  socket.emit('session', { participantId, reconnectToken: participant.reconnectToken, resumed: true });
+  socket.emit('room-state', getRoomState(room));
+  socket.emit('existing-users', existingUsers);
+  socket.emit('chat-history', getChatHistory(room, participantId));
+  socket.emit('raised-hands', getRaisedHands(room));
+  if (room.hostId === participantId) {
+    emitWaitingList(room);
+  }
+
+  // Flush signaling that arrived while the participant was reconnecting - meant for connections a restart dropped
+  const pending = participant.pendingMessages;
+  participant.pendingMessages = [];
+  if (restart) {
+    socket.to(roomId).emit('user-disconnected', participantId);
+    socket.to(roomId).emit('user-connected', describeParticipant(participantId, participant));
+  } else {
+    pending.forEach(({ event, payload }) => socket.emit(event, payload));
+  }
+
+  console.log(`User ${participantId} resumed session in room ${roomId} on socket ${socket.id}`);
+};
+
+// ICE configuration - STUN/TURN urls come from the environment (comma-separated lists)
+const STUN_URLS = (process.env.STUN_URLS || 'stun:stun.l.google.com:19302').split(',').map((url) => url.trim()).filter(Boolean);
+const TURN_URLS = (process.env.TURN_URLS || '').split(',').map((url) => url.trim()).filter(Boolean);
+// Shared secret configured on the TURN server (coturn: use-auth-secret / static-auth-secret)
+const TURN_SECRET = process.env.TURN_SECRET;
+// Lifetime of the generated TURN credentials, in seconds
+const TURN_CREDENTIAL_TTL = Number(process.env.TURN_CREDENTIAL_TTL) || 3600;
+// 'relay' forces every client through TURN - handy for testing the TURN setup
+const ICE_TRANSPORT_POLICY = process.env.ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all';
+
+// Allow the dev client (different port) to call the REST API
+app.use('/api', (req, res, next) => {
+  const origin = req.headers.origin;
+  if (origin && (corsOrigin === true || origin === corsOrigin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return res.sendStatus(204);
+  }
+  next();
+});
+
+// ICE servers for RTCPeerConnection, TURN entries get time-limited credentials in the
+// TURN REST API format: username "<expiry>:<id>", credential base64(HMAC-SHA1(secret, username))
+app.get('/api/ice-servers', (req, res) => {
+  const iceServers = [];
+  if (STUN_URLS.length) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  if (TURN_URLS.length && TURN_SECRET) {
+    const expiry = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL;
+    const username = `${expiry}:${crypto.randomBytes(8).toString('hex')}`;
+    const credential = crypto.createHmac('sha1', TURN_SECRET).update(username).digest('base64');
+    iceServers.push({ urls: TURN_URLS, username, credential });
+  } else if (TURN_URLS.length) {
+    console.warn('TURN_URLS is set without TURN_SECRET - TURN servers are not offered to clients');
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({
+    iceServers,
+    iceTransportPolicy: ICE_TRANSPORT_POLICY,
+    ttl: TURN_CREDENTIAL_TTL
+  });
+});
+
+// Allocate a new room id - the landing page calls this instead of making ids up
+app.post('/api/rooms', (req, res) => {
+  const roomId = createRoom();
+  console.log(`Room ${roomId} created`);
+  const { createdAt, hostSecret } = rooms.get(roomId);
+  res.status(201).json({ roomId, createdAt, hostSecret });
+});
+
+// Room lookup used by the landing page and the pre-join lobby
+app.get('/api/rooms/:roomId', (req, res) => {
+  const roomId = String(req.params.roomId).toLowerCase();
+  const room = rooms.get(roomId);
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({
+    roomId,
+    exists: Boolean(room),
+    participantCount: room ? room.participants.size : 0,
+    waitingRoom: Boolean(room && room.waitingRoom),
+    locked: Boolean(room && room.locked),
+    maxParticipants: MAX_PARTICIPANTS,
+    createdAt: room ? room.createdAt : null,
+    endedAt: room ? room.endedAt : null
+  });
+});
+
 // Serve static files
 if (process.env.NODE_ENV === 'production') {
   // Serve built React app in production
@@ -62,87 +528,385 @@ if (process.env.NODE_ENV === 'production') {
   app.use(express.static(path.join(__dirname, '../client')));
 }
 
-// rooms: Map<roomId, Map<socketId, displayName>>
-const rooms = new Map();
+// Clients announce their protocol version in the handshake - anything else is told to reload
+io.use((socket, next) => {
+  const { protocolVersion } = socket.handshake.auth || {};
+  if (protocolVersion !== protocol.PROTOCOL_VERSION) {
+    const error = new Error('This page is out of date. Please reload to rejoin the meeting.');
+    error.data = { code: 'protocol-version', message: error.message };
+    console.warn(`Rejected connection ${socket.id} with protocol version ${protocolVersion}`);
+    return next(error);
+  }
+  next();
+});
 
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
 
-  // Expect join payload { roomId, name }
-  socket.on('join-room', (payload) => {
-    const { roomId: rawRoomId, name } = (typeof payload === 'string') ? { roomId: payload, name: 'Guest' } : payload || {};
-    if (!rawRoomId) return;
-    const roomId = String(rawRoomId).toLowerCase();
+  // Every incoming event is rate limited and checked against the shared protocol before any handler sees it
+  const withinRateLimit = createRateLimiter();
+  let lastRateLimitErrorAt = 0;
+  socket.use(([event, payload], next) => {
+    if (!withinRateLimit()) {
+      const now = Date.now();
+      if (now - lastRateLimitErrorAt >= RATE_LIMIT_ERROR_INTERVAL_MS) {
+        lastRateLimitErrorAt = now;
+        console.warn(`Rate limited ${socket.id}`);
+        sendSignalingError(socket, 'rate-limited', 'Too many messages - some were dropped.', { event });
+      }
+      return;
+    }
+
+    const error = protocol.validateClientMessage(event, payload);
+    if (error) {
+      console.warn(`Rejected "${event}" from ${socket.id}: ${error.code}`);
+      socket.emit('signaling-error', error);
+      return;
+    }
+    next();
+  });
+
+  // Stop knocking - the user gave up waiting
+  const leaveWaitingRoom = () => {
+    const room = rooms.get(socket.data.waitingRoomId);
+    socket.data.waitingRoomId = undefined;
+    if (room?.waiting.delete(socket.id)) {
+      emitWaitingList(room);
+    }
+  };
+
+  // Leave the room the socket is in, admitted or still knocking
+  const leaveCurrentRoom = () => {
+    const { roomId, participantId } = socket.data;
+    leaveWaitingRoom();
+    if (!roomId) return;
+    socket.leave(roomId);
+    socket.data.roomId = undefined;
+    socket.data.participantId = undefined;
+    if (rooms.has(roomId) && participantId) {
+      removeParticipant(roomId, participantId);
+      console.log(`User ${participantId} left room ${roomId}`);
+    }
+  };
+
+  // Join payload { roomId, name, reconnectToken?, restart?, hostSecret? }
+  socket.on('join-room', ({ roomId: rawRoomId, name, reconnectToken, restart, hostSecret }) => {
+    const roomId = rawRoomId.toLowerCase();
+
+    // One room per socket - the client has to leave before joining somewhere else
+    if (socket.data.roomId || socket.data.waitingRoomId) {
+      sendSignalingError(socket, 'already-in-room', 'Leave the current meeting first.', { event: 'join-room' });
+      return;
+    }
+
+    // Only rooms allocated through POST /api/rooms exist - a mistyped id must not start a new meeting
+    const room = rooms.get(roomId);
+    if (!room) {
+      socket.emit('join-denied', { reason: 'There is no meeting with this ID.' });
+      console.log(`User ${socket.id} (${name}) tried to join unknown room ${roomId}`);
+      return;
+    }
+
+    // Session resume - a reconnecting client presents the token issued on its first join
+    const resumed = reconnectToken
+      ? Array.from(room.participants.entries()).find(([, participant]) => participant.reconnectToken === reconnectToken)
+      : undefined;
+    if (resumed) {
+      resumeSession(socket, roomId, ...resumed, Boolean(restart));
+      return;
+    }
+
+    // The creator gets past the lock and the waiting room of their own meeting
+    const isCreator = isRoomCreator(room, hostSecret);
+
+    // Without a host nobody could unlock the room or admit anyone
+    if (room.locked && room.hostId && !isCreator) {
+      socket.emit('join-denied', { reason: 'This meeting is locked.' });
+      console.log(`User ${socket.id} (${name}) was turned away from locked room ${roomId}`);
+      return;
+    }
 
-    socket.join(roomId);
+    if (isRoomFull(room)) {
+      rejectRoomFull(socket, roomId);
+      return;
+    }
 
-    if (!rooms.has(roomId)) {
-      rooms.set(roomId, new Map());
+    // With the waiting room on, newcomers knock and the host decides
+    if (room.waitingRoom && room.hostId && !isCreator) {
+      room.waiting.set(socket.id, { name: name || 'Guest' });
+      socket.data.waitingRoomId = roomId;
+      socket.emit('waiting-for-host');
+      emitWaitingList(room);
+      console.log(`User ${socket.id} (${name}) is waiting to join room ${roomId}`);
+      return;
     }
 
-    const roomMap = rooms.get(roomId);
+    admitToRoom(socket, roomId, name, isCreator);
+  });
 
-    // Prepare existing users list (array of { id, name }) before adding the new user
-    const existingUsers = Array.from(roomMap.entries()).map(([id, displayName]) => ({ id, name: displayName }));
+  // Host-only: turn the waiting room on or off { enabled }
+  socket.on('set-waiting-room', (data) => {
+    const current = requireHost(socket, 'set-waiting-room');
+    if (!current) return;
 
-    // Add/replace this socket's display name in the room map
-    roomMap.set(socket.id, name || 'Guest');
+    current.room.waitingRoom = Boolean(data?.enabled);
+    emitRoomState(current.roomId);
 
-    // Send list of existing users to the new joiner
-    socket.emit('existing-users', existingUsers);
+    // Turning it off lets everyone who is knocking in
+    if (!current.room.waitingRoom) {
+      current.room.waiting.forEach(({ name }, socketId) => {
+        const waitingSocket = io.sockets.sockets.get(socketId);
+        if (waitingSocket) {
+          waitingSocket.data.waitingRoomId = undefined;
+          admitToRoom(waitingSocket, current.roomId, name);
+        }
+      });
+      current.room.waiting.clear();
+      emitWaitingList(current.room);
+    }
+  });
 
-    // Notify others in room about the new user (send { id, name })
-    socket.to(roomId).emit('user-connected', { id: socket.id, name: name || 'Guest' });
+  // Host-only: let a knocking user in { id }
+  socket.on('admit-participant', (data) => {
+    const current = requireHost(socket, 'admit-participant');
+    if (!current) return;
 
-    console.log(`User ${socket.id} (${name}) joined room ${roomId}. Existing users:`, existingUsers);
+    const waiting = current.room.waiting.get(data?.id);
+    const waitingSocket = io.sockets.sockets.get(data?.id);
+    current.room.waiting.delete(data?.id);
+    if (waiting && waitingSocket) {
+      waitingSocket.data.waitingRoomId = undefined;
+      admitToRoom(waitingSocket, current.roomId, waiting.name);
+    }
+    emitWaitingList(current.room);
   });
 
-  socket.on('offer', (data) => {
-    console.log(`Relaying offer from ${socket.id} to ${data.to}`);
-    socket.to(data.to).emit('offer', {
-      offer: data.offer,
-      from: socket.id
+  // Host-only: turn a knocking user away { id }
+  socket.on('deny-participant', (data) => {
+    const current = requireHost(socket, 'deny-participant');
+    if (!current) return;
+
+    if (current.room.waiting.delete(data?.id)) {
+      const waitingSocket = io.sockets.sockets.get(data.id);
+      if (waitingSocket) {
+        waitingSocket.data.waitingRoomId = undefined;
+        waitingSocket.emit('join-denied', { reason: 'The host did not let you in.' });
+      }
+    }
+    emitWaitingList(current.room);
+  });
+
+  // Host-only: ask a participant to mute their microphone { id }
+  socket.on('request-mute', (data) => {
+    const current = requireHost(socket, 'request-mute');
+    if (!current || data?.id === current.participantId) return;
+
+    sendToParticipant(current.roomId, data?.id, 'mute-requested', { by: current.participantId });
+    console.log(`Host ${current.participantId} muted ${data?.id} in room ${current.roomId}`);
+  });
+
+  // Host-only: take a participant out of the meeting { id }
+  socket.on('remove-participant', (data) => {
+    const current = requireHost(socket, 'remove-participant');
+    if (!current || data?.id === current.participantId) return;
+
+    const target = current.room.participants.get(data?.id);
+    if (!target) return;
+
+    sendToParticipant(current.roomId, data.id, 'removed', { reason: 'The host removed you from the meeting.' });
+    detachSocket(target.socketId, current.roomId);
+    removeParticipant(current.roomId, data.id);
+    console.log(`Host ${current.participantId} removed ${data.id} from room ${current.roomId}`);
+  });
+
+  // Host-only: stop anyone new from joining { locked }
+  socket.on('set-room-locked', (data) => {
+    const current = requireHost(socket, 'set-room-locked');
+    if (!current) return;
+
+    current.room.locked = Boolean(data?.locked);
+    emitRoomState(current.roomId);
+    console.log(`Room ${current.roomId} ${current.room.locked ? 'locked' : 'unlocked'}`);
+  });
+
+  // Host-only: end the meeting for everyone
+  socket.on('end-meeting', () => {
+    const current = requireHost(socket, 'end-meeting');
+    if (!current) return;
+
+    const { roomId, room } = current;
+    io.to(roomId).emit('meeting-ended', { reason: 'The host ended the meeting.' });
+    turnAwayWaiting(room, 'The meeting has ended.');
+    room.participants.forEach((participant) => {
+      clearTimeout(participant.resumeTimer);
+      detachSocket(participant.socketId, roomId);
     });
+    deleteRoom(roomId);
+    console.log(`Host ${current.participantId} ended the meeting in room ${roomId}`);
+  });
+
+  socket.on('offer', (data) => {
+    console.log(`Relaying offer from ${socket.data.participantId} to ${data.to}`);
+    relayToParticipant(socket, 'offer', data.to, { offer: data.offer });
   });
 
   socket.on('answer', (data) => {
-    console.log(`Relaying answer from ${socket.id} to ${data.to}`);
-    socket.to(data.to).emit('answer', {
-      answer: data.answer,
-      from: socket.id
-    });
+    console.log(`Relaying answer from ${socket.data.participantId} to ${data.to}`);
+    relayToParticipant(socket, 'answer', data.to, { answer: data.answer });
   });
 
   socket.on('ice-candidate', (data) => {
-    console.log(`Relaying ICE candidate from ${socket.id} to ${data.to}`);
-    socket.to(data.to).emit('ice-candidate', {
-      candidate: data.candidate,
-      from: socket.id
+    console.log(`Relaying ICE candidate from ${socket.data.participantId} to ${data.to}`);
+    relayToParticipant(socket, 'ice-candidate', data.to, { candidate: data.candidate });
+  });
+
+  // How large the sender shows { to }'s video { size: 'large' | 'thumbnail' } - lets { to } pick its encoding
+  socket.on('tile-size', (data) => {
+    relayToParticipant(socket, 'tile-size', data.to, { size: data.size });
+  });
+
+  // The sender asks { to } to stop or resume sending it video { paused, reason } - lets { to } drop that upload
+  socket.on('video-pause', (data) => {
+    relayToParticipant(socket, 'video-pause', data.to, { paused: data.paused, reason: data.reason || null });
+  });
+
+  // Screen share state { isSharing } - relayed to the rest of the room
+  socket.on('screen-share', (data) => {
+    const current = requireParticipant(socket, 'screen-share');
+    if (!current) return;
+
+    const { roomId, participantId, participant } = current;
+    participant.isScreenSharing = Boolean(data?.isSharing);
+    socket.to(roomId).emit('screen-share', {
+      id: participantId,
+      isSharing: participant.isScreenSharing
     });
+    console.log(`User ${participantId} ${participant.isScreenSharing ? 'started' : 'stopped'} screen sharing in room ${roomId}`);
   });
 
-  socket.on('leave-room', (rawRoomId) => {
-    const roomId = String(rawRoomId || '').toLowerCase();
-    socket.leave(roomId);
-    if (rooms.has(roomId)) {
-      rooms.get(roomId).delete(socket.id);
-      socket.to(roomId).emit('user-disconnected', socket.id);
-      console.log(`User ${socket.id} left room ${roomId}`);
+  // Mic/camera state { audio, video } - relayed so others can show a muted icon or an avatar
+  socket.on('media-state', (data) => {
+    const current = requireParticipant(socket, 'media-state');
+    if (!current) return;
+
+    const { roomId, participantId, participant } = current;
+    participant.isAudioEnabled = Boolean(data?.audio);
+    participant.isVideoEnabled = Boolean(data?.video);
+    socket.to(roomId).emit('media-state', {
+      id: participantId,
+      audio: participant.isAudioEnabled,
+      video: participant.isVideoEnabled
+    });
+  });
+
+  // Local recording state { isRecording } - everyone sees an indicator while anyone records
+  socket.on('recording', (data) => {
+    const current = requireParticipant(socket, 'recording');
+    if (!current) return;
+
+    const { roomId, participantId, participant } = current;
+    participant.isRecording = Boolean(data?.isRecording);
+    socket.to(roomId).emit('recording', {
+      id: participantId,
+      isRecording: participant.isRecording
+    });
+    console.log(`User ${participantId} ${participant.isRecording ? 'started' : 'stopped'} recording in room ${roomId}`);
+  });
+
+  // Raise or lower our own hand { raised } - the queue keeps the time it went up
+  socket.on('raise-hand', (data) => {
+    const current = requireParticipant(socket, 'raise-hand');
+    if (!current) return;
+
+    const { roomId, participantId, participant } = current;
+    if (data.raised === (participant.handRaisedAt !== null)) return;
+    participant.handRaisedAt = data.raised ? Date.now() : null;
+    emitRaisedHands(roomId);
+    console.log(`User ${participantId} ${data.raised ? 'raised' : 'lowered'} their hand in room ${roomId}`);
+  });
+
+  // Host-only: lower someone else's hand { id }
+  socket.on('lower-hand', (data) => {
+    const current = requireHost(socket, 'lower-hand');
+    if (!current) return;
+
+    const participant = current.room.participants.get(data?.id);
+    if (!participant || participant.handRaisedAt === null) return;
+    participant.handRaisedAt = null;
+    emitRaisedHands(current.roomId);
+    console.log(`Host ${current.participantId} lowered the hand of ${data.id}`);
+  });
+
+  // Emoji reaction { emoji } - shown briefly on the sender's tile, nothing is kept
+  socket.on('reaction', (data) => {
+    const current = requireParticipant(socket, 'reaction');
+    if (!current) return;
+
+    io.to(current.roomId).emit('reaction', { id: current.participantId, emoji: data.emoji });
+  });
+
+  // Chat { text, to? } - to everyone, or only to one participant when 'to' is set
+  socket.on('chat-message', (data) => {
+    const current = requireParticipant(socket, 'chat-message');
+    if (!current) return;
+
+    const { roomId, room, participantId, participant } = current;
+    const text = data.text.trim();
+    if (!text) return;
+
+    const to = data.to || null;
+    const recipient = to && room.participants.get(to);
+    if (to && (!recipient || to === participantId)) {
+      sendSignalingError(socket, 'unknown-participant', 'That participant is not in this meeting.', { event: 'chat-message', target: to });
+      return;
+    }
+
+    const message = {
+      id: crypto.randomUUID(),
+      from: participantId,
+      fromName: participant.name,
+      to,
+      text,
+      sentAt: Date.now()
+    };
+    room.chatHistory.push(message);
+    if (room.chatHistory.length > CHAT_HISTORY_LIMIT) {
+      room.chatHistory.shift();
+    }
+
+    // Someone reconnecting gets it with the history when they resume
+    if (recipient) {
+      if (recipient.socketId) {
+        io.to(recipient.socketId).emit('chat-message', message);
+      }
+      socket.emit('chat-message', message);
+    } else {
+      io.to(roomId).emit('chat-message', message);
     }
   });
 
+  socket.on('leave-room', leaveCurrentRoom);
+
   socket.on('disconnect', () => {
-    rooms.forEach((usersMap, roomId) => {
-      if (usersMap.has(socket.id)) {
-        usersMap.delete(socket.id);
-        socket.to(roomId).emit('user-disconnected', socket.id);
-      }
-    });
+    leaveWaitingRoom();
+
+    // Ignore sockets that were already replaced by a resumed session
+    const current = getSocketParticipant(socket);
+    if (current && current.participant.socketId === socket.id) {
+      const { roomId, participantId, participant } = current;
+      participant.socketId = undefined;
+      participant.resumeTimer = setTimeout(() => {
+        removeParticipant(roomId, participantId);
+        console.log(`Session of ${participantId} in room ${roomId} expired`);
+      }, SESSION_RESUME_GRACE_MS);
+    }
     console.log('User disconnected:', socket.id);
   });
 });
 
 const PORT = process.env.PORT || 3000;
-http.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
+protocolReady.then(() => {
+  http.listen(PORT, () => {
+    console.log(`Server running on http://localhost:${PORT} (signaling protocol v${protocol.PROTOCOL_VERSION})`);
+  });
 });
@@ -0,0 +1,148 @@
+// Types for the signaling protocol implemented in protocol.mjs
+
+export declare const PROTOCOL_VERSION: number;
+export declare const MAX_MESSAGE_BYTES: number;
+export declare const MAX_CHAT_MESSAGE_LENGTH: number;
+export declare const REACTIONS: readonly string[];
+export declare const VIDEO_PAUSE_REASONS: readonly VideoPauseReason[];
+
+export type TileSize = 'large' | 'thumbnail';
+
+// 'audio-only': the receiver takes no video at all, 'speaker-only': only the active speaker's
+export type VideoPauseReason = 'audio-only' | 'speaker-only';
+
+export type SignalingErrorCode =
+  | 'protocol-version'
+  | 'unknown-event'
+  | 'message-too-large'
+  | 'invalid-payload'
+  | 'rate-limited'
+  | 'not-in-room'
+  | 'already-in-room'
+  | 'not-host'
+  | 'unknown-participant';
+
+export interface SignalingError {
+  code: SignalingErrorCode;
+  message: string;
+  // The client event that caused it, if any
+  event?: string;
+  // The participant a relayed message was addressed to
+  target?: string;
+}
+
+// What everyone learns about a participant when joining, and when someone new joins
+export interface ParticipantInfo {
+  id: string;
+  name: string;
+  isAudioEnabled: boolean;
+  isVideoEnabled: boolean;
+  isScreenSharing: boolean;
+  isRecording: boolean;
+}
+
+export interface WaitingParticipantInfo {
+  id: string;
+  name: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  from: string;
+  // The sender's name when it was sent - they may have left since
+  fromName: string;
+  // Recipient of a direct message, null when sent to everyone
+  to: string | null;
+  text: string;
+  // ms since epoch, server clock
+  sentAt: number;
+}
+
+// One entry of the raised hands queue, longest waiting first
+export interface RaisedHand {
+  id: string;
+  // ms since epoch, server clock
+  raisedAt: number;
+}
+
+export interface RoomState {
+  hostId: string | null;
+  waitingRoom: boolean;
+  locked: boolean;
+}
+
+export interface SessionInfo {
+  participantId: string;
+  reconnectToken: string;
+  resumed: boolean;
+}
+
+// Sent with the Socket.IO handshake (socket.handshake.auth)
+export interface HandshakeAuth {
+  protocolVersion: number;
+}
+
+export interface ClientToServerEvents {
+  // restart: the client dropped its peer connections - everyone reconnects to the resumed participant
+  // hostSecret: returned by POST /api/rooms - only the creator presents it and becomes the host
+  'join-room': (payload: {
+    roomId: string;
+    name: string;
+    reconnectToken?: string | null;
+    restart?: boolean;
+    hostSecret?: string | null;
+  }) => void;
+  'leave-room': () => void;
+  'set-waiting-room': (payload: { enabled: boolean }) => void;
+  'admit-participant': (payload: { id: string }) => void;
+  'deny-participant': (payload: { id: string }) => void;
+  'request-mute': (payload: { id: string }) => void;
+  'remove-participant': (payload: { id: string }) => void;
+  'set-room-locked': (payload: { locked: boolean }) => void;
+  'end-meeting': () => void;
+  'offer': (payload: { to: string; offer: RTCSessionDescriptionInit }) => void;
+  'answer': (payload: { to: string; answer: RTCSessionDescriptionInit }) => void;
+  'ice-candidate': (payload: { to: string; candidate: RTCIceCandidateInit }) => void;
+  'tile-size': (payload: { to: string; size: TileSize }) => void;
+  // Ask { to } to stop (or resume) sending us video
+  'video-pause': (payload: { to: string; paused: boolean; reason?: VideoPauseReason | null }) => void;
+  'screen-share': (payload: { isSharing: boolean }) => void;
+  'media-state': (payload: { audio: boolean; video: boolean }) => void;
+  'recording': (payload: { isRecording: boolean }) => void;
+  'chat-message': (payload: { text: string; to?: string | null }) => void;
+  'raise-hand': (payload: { raised: boolean }) => void;
+  'lower-hand': (payload: { id: string }) => void;
+  'reaction': (payload: { emoji: string }) => void;
+}
+
+export interface ServerToClientEvents {
+  'session': (session: SessionInfo) => void;
+  'room-state': (state: RoomState) => void;
+  'existing-users': (users: ParticipantInfo[]) => void;
+  'user-connected': (user: ParticipantInfo) => void;
+  'user-disconnected': (participantId: string) => void;
+  'waiting-list': (waiting: WaitingParticipantInfo[]) => void;
+  'waiting-for-host': () => void;
+  'join-denied': (payload: { reason: string }) => void;
+  'room-full': (payload: { reason: string; maxParticipants: number }) => void;
+  'removed': (payload: { reason: string }) => void;
+  'meeting-ended': (payload: { reason: string }) => void;
+  'mute-requested': (payload: { by: string }) => void;
+  'offer': (payload: { from: string; offer: RTCSessionDescriptionInit }) => void;
+  'answer': (payload: { from: string; answer: RTCSessionDescriptionInit }) => void;
+  'ice-candidate': (payload: { from: string; candidate: RTCIceCandidateInit }) => void;
+  'tile-size': (payload: { from: string; size: TileSize }) => void;
+  'video-pause': (payload: { from: string; paused: boolean; reason: VideoPauseReason | null }) => void;
+  'screen-share': (payload: { id: string; isSharing: boolean }) => void;
+  'media-state': (payload: { id: string; audio: boolean; video: boolean }) => void;
+  'recording': (payload: { id: string; isRecording: boolean }) => void;
+  'chat-message': (message: ChatMessage) => void;
+  // Earlier messages we're allowed to see, sent on every (re)join
+  'chat-history': (messages: ChatMessage[]) => void;
+  // The whole queue, sent on join and whenever it changes
+  'raised-hands': (hands: RaisedHand[]) => void;
+  'reaction': (payload: { id: string; emoji: string }) => void;
+  'signaling-error': (error: SignalingError) => void;
+}
+
+export declare const validateClientMessage: (event: string, payload: unknown) => SignalingError | null;
@@ -0,0 +1,98 @@
+// Signaling protocol shared by the server (server/server.js) and the client (client/src/hooks/useSockets.ts).
+// Event and payload types live next to this file in protocol.d.mts - keep both in sync.
+
+// Bump whenever an event or payload changes incompatibly. Clients send it when connecting and
+// the server turns away any other version with a 'protocol-version' error.
+export const PROTOCOL_VERSION = 4;
+
+// Largest payload the server accepts for a single event - generous for SDP, small enough to stop abuse
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+// Longest chat message - enough for a code snippet, well under MAX_MESSAGE_BYTES
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+// Emoji anyone can send as a reaction - everything else is rejected
+export const REACTIONS = ['👍', '👏', '😂', '😮', '❤️', '🎉'];
+
+// Why a participant asks someone to stop sending them video
+export const VIDEO_PAUSE_REASONS = ['audio-only', 'speaker-only'];
+
+const MAX_ID_LENGTH = 64;
+const MAX_NAME_LENGTH = 100;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (maxLength) => (value) => typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+const isBoolean = (value) => typeof value === 'boolean';
+const isOptional = (check) => (value) => value === undefined || value === null || check(value);
+const isOneOf = (...options) => (value) => options.includes(value);
+const isId = isString(MAX_ID_LENGTH);
+
+// Every field listed must pass; fields not listed are ignored
+const shape = (fields) => (value) =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const isSessionDescription = shape({
+  type: isOneOf('offer', 'answer', 'pranswer', 'rollback'),
+  sdp: isOptional((sdp) => typeof sdp === 'string')
+});
+
+const isIceCandidate = shape({
+  candidate: isOptional((candidate) => typeof candidate === 'string'),
+  sdpMid: isOptional((sdpMid) => typeof sdpMid === 'string'),
+  sdpMLineIndex: isOptional((index) => Number.isInteger(index))
+});
+
+const isNothing = (value) => value === undefined || value === null;
+
+// Client -> server events and the payload each one accepts
+const CLIENT_EVENTS = {
+  'join-room': shape({
+    roomId: isId,
+    name: isString(MAX_NAME_LENGTH),
+    reconnectToken: isOptional(isString(MAX_ID_LENGTH)),
+    restart: isOptional(isBoolean),
+    hostSecret: isOptional(isString(MAX_ID_LENGTH))
+  }),
+  'leave-room': isNothing,
+  'set-waiting-room': shape({ enabled: isBoolean }),
+  'admit-participant': shape({ id: isId }),
+  'deny-participant': shape({ id: isId }),
+  'request-mute': shape({ id: isId }),
+  'remove-participant': shape({ id: isId }),
+  'set-room-locked': shape({ locked: isBoolean }),
+  'end-meeting': isNothing,
+  'offer': shape({ to: isId, offer: isSessionDescription }),
+  'answer': shape({ to: isId, answer: isSessionDescription }),
+  'ice-candidate': shape({ to: isId, candidate: isIceCandidate }),
+  'tile-size': shape({ to: isId, size: isOneOf('large', 'thumbnail') }),
+  'video-pause': shape({ to: isId, paused: isBoolean, reason: isOptional(isOneOf(...VIDEO_PAUSE_REASONS)) }),
+  'screen-share': shape({ isSharing: isBoolean }),
+  'media-state': shape({ audio: isBoolean, video: isBoolean }),
+  'recording': shape({ isRecording: isBoolean }),
+  'chat-message': shape({ text: isString(MAX_CHAT_MESSAGE_LENGTH), to: isOptional(isId) }),
+  'raise-hand': shape({ raised: isBoolean }),
+  'lower-hand': shape({ id: isId }),
+  'reaction': shape({ emoji: isOneOf(...REACTIONS) })
+};
+
+// Returns a SignalingError for a message the server must not handle, or null if it is fine
+export const validateClientMessage = (event, payload) => {
+  if (!Object.prototype.hasOwnProperty.call(CLIENT_EVENTS, event)) {
+    return { code: 'unknown-event', message: `Unknown event "${event}".`, event };
+  }
+
+  let size = 0;
+  try {
+    size = payload === undefined ? 0 : JSON.stringify(payload).length;
+  } catch {
+    size = Infinity;
+  }
+  if (size > MAX_MESSAGE_BYTES) {
+    return { code: 'message-too-large', message: `The "${event}" message is too large.`, event };
+  }
+
+  if (!CLIENT_EVENTS[event](payload)) {
+    return { code: 'invalid-payload', message: `The "${event}" message is malformed.`, event };
+  }
+  return null;
+};